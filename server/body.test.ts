@@ -0,0 +1,39 @@
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { BodyTooLargeError, readBody } from './body';
+
+const chunked = (...chunks: string[]) => Readable.from(chunks.map((chunk) => Buffer.from(chunk)), { objectMode: false });
+
+describe('readBody', () => {
+  it('buffers a body within the limit', async () => {
+    expect((await readBody(chunked('ab', 'cd'), 4)).toString()).toBe('abcd');
+  });
+
+  it('rejects once the bytes received pass the limit', async () => {
+    await expect(readBody(chunked('ab', 'cd', 'e'), 4)).rejects.toBeInstanceOf(BodyTooLargeError);
+  });
+
+  it('stops reading as soon as the limit is passed', async () => {
+    const pulled: number[] = [];
+    const body = Readable.from(
+      (function* () {
+        for (let i = 0; i < 100; i++) {
+          pulled.push(i);
+          yield Buffer.alloc(10);
+        }
+      })(),
+      { objectMode: false },
+    );
+    await expect(readBody(body, 25)).rejects.toBeInstanceOf(BodyTooLargeError);
+    expect(pulled.length).toBeLessThan(100);
+  });
+
+  it('passes stream errors through', async () => {
+    const body = new Readable({
+      read() {
+        this.destroy(new Error('reset'));
+      },
+    });
+    await expect(readBody(body, 10)).rejects.toThrow('reset');
+  });
+});
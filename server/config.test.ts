@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { loadConfig } from './config';
+
+const stub = { UPSTREAM: 'stub' };
+
+describe('loadConfig', () => {
+  it('uses defaults for unset numbers', () => {
+    const config = loadConfig(stub);
+    expect(config.port).toBe(5000);
+    expect(config.tokenTtlSeconds).toBe(60);
+    expect(config.rateLimitPerMinute).toBe(10);
+    expect(config.addressRateLimitPerMinute).toBe(300);
+    expect(config.trustProxy).toBe(false);
+    expect(config.transcription.maxUploadBytes).toBe(25 * 1024 * 1024);
+    expect(config.speech.maxChars).toBe(4000);
+    expect(config.speech.rateLimitPerMinute).toBe(60);
+  });
+
+  it('reads numbers from the environment', () => {
+    const config = loadConfig({ ...stub, TOKEN_TTL_SECONDS: '30', TRANSCRIBE_MAX_UPLOAD_MB: '0.5', TTS_RATE_LIMIT_PER_MINUTE: '120' });
+    expect(config.tokenTtlSeconds).toBe(30);
+    expect(config.speech.rateLimitPerMinute).toBe(120);
+    expect(config.transcription.maxUploadBytes).toBe(512 * 1024);
+  });
+
+  it.each(['TOKEN_TTL_SECONDS', 'RATE_LIMIT_PER_MINUTE', 'RATE_LIMIT_PER_ADDRESS_PER_MINUTE', 'PORT', 'TRANSCRIBE_MAX_UPLOAD_MB', 'TTS_MAX_CHARS', 'TTS_RATE_LIMIT_PER_MINUTE'])(
+    'refuses to start with a malformed %s',
+    (name) => {
+      expect(() => loadConfig({ ...stub, [name]: 'ten' })).toThrow(name);
+      expect(() => loadConfig({ ...stub, [name]: '-1' })).toThrow(name);
+    },
+  );
+
+  it('requires a Gemini key unless the upstream is stubbed', () => {
+    expect(() => loadConfig({})).toThrow('GEMINI_API_KEY');
+  });
+});
@@ -0,0 +1,149 @@
+export type UpstreamKind = 'gemini' | 'stub';
+
+/**
+ * whisper-http: an OpenAI-compatible `/v1/audio/transcriptions` endpoint.
+ * whisper-cpp: a local whisper.cpp binary, with ffmpeg to convert uploads.
+ * fake: a fixed transcript, for tests and offline development.
+ */
+export type TranscriptionEngineKind = 'whisper-http' | 'whisper-cpp' | 'fake';
+
+export interface TranscriptionConfig {
+  /** Null leaves `POST /transcribe` answering 503. */
+  engine: TranscriptionEngineKind | null;
+  /** Largest upload accepted, in bytes. */
+  maxUploadBytes: number;
+  whisperUrl: string;
+  whisperApiKey: string;
+  whisperModel: string;
+  whisperCppBinary: string;
+  /** Path to the ggml model file whisper.cpp loads. */
+  whisperCppModel: string;
+  ffmpegBinary: string;
+}
+
+/**
+ * openai-http: an OpenAI-compatible `/v1/audio/speech` endpoint.
+ * fake: beeps in place of words, for tests and offline development.
+ */
+export type SpeechEngineKind = 'openai-http' | 'fake';
+
+export interface SpeechConfig {
+  /** Null leaves `POST /tts` answering 503. */
+  engine: SpeechEngineKind | null;
+  speechUrl: string;
+  speechApiKey: string;
+  speechModel: string;
+  /** Voice used when a request doesn't name one. */
+  speechVoice: string;
+  /** Longest text accepted in one request, in characters. */
+  maxChars: number;
+  /** `/tts` and `/tts/voices` requests per device per minute, counted apart from `rateLimitPerMinute`. */
+  rateLimitPerMinute: number;
+}
+
+export interface ServerConfig {
+  port: number;
+  upstream: UpstreamKind;
+  /** Real Gemini key. Only ever read on the server. */
+  geminiApiKey: string;
+  /** Lifetime of a minted token before it can open a session. */
+  tokenTtlSeconds: number;
+  /** Requests (token mints, live connections, uploads) allowed per device per minute. */
+  rateLimitPerMinute: number;
+  /** Ceiling across every device id seen from one address, so inventing ids doesn't dodge the limit. */
+  addressRateLimitPerMinute: number;
+  /** Take the client address from `X-Forwarded-For`; only safe behind a reverse proxy that sets it. */
+  trustProxy: boolean;
+  /** Comma-separated origins for CORS; `*` allows any. */
+  allowedOrigins: string[];
+  transcription: TranscriptionConfig;
+  speech: SpeechConfig;
+}
+
+/**
+ * A positive number from `env[name]`, or `fallback` when unset. Anything else
+ * stops startup, so a typo can't quietly turn a limit into NaN.
+ */
+const positiveNumber = (env: NodeJS.ProcessEnv, name: string, fallback: number) => {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}"`);
+  }
+  return value;
+};
+
+const transcriptionEngines: TranscriptionEngineKind[] = ['whisper-http', 'whisper-cpp', 'fake'];
+
+const loadTranscriptionConfig = (env: NodeJS.ProcessEnv): TranscriptionConfig => {
+  const engine = env.TRANSCRIBE_ENGINE ? (env.TRANSCRIBE_ENGINE as TranscriptionEngineKind) : null;
+  if (engine && !transcriptionEngines.includes(engine)) {
+    throw new Error(`TRANSCRIBE_ENGINE must be one of ${transcriptionEngines.join(', ')}`);
+  }
+
+  const config: TranscriptionConfig = {
+    engine,
+    maxUploadBytes: positiveNumber(env, 'TRANSCRIBE_MAX_UPLOAD_MB', 25) * 1024 * 1024,
+    whisperUrl: env.WHISPER_URL ?? '',
+    whisperApiKey: env.WHISPER_API_KEY ?? '',
+    whisperModel: env.WHISPER_MODEL ?? 'whisper-1',
+    whisperCppBinary: env.WHISPER_CPP_BINARY ?? 'whisper-cli',
+    whisperCppModel: env.WHISPER_CPP_MODEL ?? '',
+    ffmpegBinary: env.FFMPEG_BINARY ?? 'ffmpeg',
+  };
+
+  if (engine === 'whisper-http' && !config.whisperUrl) {
+    throw new Error('WHISPER_URL is required when TRANSCRIBE_ENGINE=whisper-http');
+  }
+  if (engine === 'whisper-cpp' && !config.whisperCppModel) {
+    throw new Error('WHISPER_CPP_MODEL is required when TRANSCRIBE_ENGINE=whisper-cpp');
+  }
+  return config;
+};
+
+const speechEngines: SpeechEngineKind[] = ['openai-http', 'fake'];
+
+const loadSpeechConfig = (env: NodeJS.ProcessEnv): SpeechConfig => {
+  const engine = env.TTS_ENGINE ? (env.TTS_ENGINE as SpeechEngineKind) : null;
+  if (engine && !speechEngines.includes(engine)) {
+    throw new Error(`TTS_ENGINE must be one of ${speechEngines.join(', ')}`);
+  }
+
+  const config: SpeechConfig = {
+    engine,
+    speechUrl: env.TTS_URL ?? '',
+    speechApiKey: env.TTS_API_KEY ?? '',
+    speechModel: env.TTS_MODEL ?? 'tts-1',
+    speechVoice: env.TTS_VOICE ?? 'alloy',
+    maxChars: positiveNumber(env, 'TTS_MAX_CHARS', 4000),
+    rateLimitPerMinute: positiveNumber(env, 'TTS_RATE_LIMIT_PER_MINUTE', 60),
+  };
+
+  if (engine === 'openai-http' && !config.speechUrl) {
+    throw new Error('TTS_URL is required when TTS_ENGINE=openai-http');
+  }
+  return config;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const upstream: UpstreamKind = env.UPSTREAM === 'stub' ? 'stub' : 'gemini';
+  const geminiApiKey = env.GEMINI_API_KEY ?? '';
+
+  if (upstream === 'gemini' && !geminiApiKey) {
+    throw new Error('GEMINI_API_KEY is required unless UPSTREAM=stub');
+  }
+
+  return {
+    port: positiveNumber(env, 'PORT', 5000),
+    upstream,
+    geminiApiKey,
+    tokenTtlSeconds: positiveNumber(env, 'TOKEN_TTL_SECONDS', 60),
+    rateLimitPerMinute: positiveNumber(env, 'RATE_LIMIT_PER_MINUTE', 10),
+    addressRateLimitPerMinute: positiveNumber(env, 'RATE_LIMIT_PER_ADDRESS_PER_MINUTE', 300),
+    trustProxy: env.TRUST_PROXY === 'true' || env.TRUST_PROXY === '1',
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? '*').split(',').map((origin) => origin.trim()),
+    transcription: loadTranscriptionConfig(env),
+    speech: loadSpeechConfig(env),
+  };
+};
@@ -0,0 +1,280 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer } from 'ws';
+import { BodyTooLargeError, readBody } from './body';
+import { loadConfig } from './config';
+import { clientAddressOf, deviceKeyOf, RateLimiter } from './rate-limit';
+import { createUpstream, LIVE_PATH_PREFIX } from './upstream';
+import { TranscriptionTimeoutError, createTranscriptionEngine } from './transcription';
+import { attachTranscriptionStream } from './transcription-stream';
+import { createSpeechEngine } from './speech';
+import { TRANSCRIPTION_AUDIO_FIELD, TRANSCRIPTION_STREAM_PATH } from '../src/lib/transcription-protocol';
+import type { SpeechRequest } from '../src/lib/speech-protocol';
+
+const config = loadConfig();
+const upstream = createUpstream(config);
+const transcriber = createTranscriptionEngine(config.transcription);
+const speaker = createSpeechEngine(config.speech);
+const limiter = new RateLimiter(config.rateLimitPerMinute);
+const addressLimiter = new RateLimiter(config.addressRateLimitPerMinute);
+// Read-aloud sends one request per text, so it would soon use up the general bucket.
+const speechLimiter = new RateLimiter(config.speech.rateLimitPerMinute);
+const wss = new WebSocketServer({ noServer: true });
+
+setInterval(() => {
+  limiter.prune();
+  addressLimiter.prune();
+  speechLimiter.prune();
+}, 60_000).unref();
+
+/** Charges one request to the calling device's bucket in `deviceLimiter` and to its address; the first refusal wins. */
+const takeRequest = (req: IncomingMessage, url: URL, deviceLimiter = limiter) => {
+  const address = clientAddressOf(req, config.trustProxy);
+  const byAddress = addressLimiter.take(address);
+  return byAddress.allowed ? deviceLimiter.take(deviceKeyOf(req, url, address)) : byAddress;
+};
+
+const corsHeaders = (req: IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  const allowed = config.allowedOrigins.includes('*') || (origin !== undefined && config.allowedOrigins.includes(origin));
+  if (!allowed) return {};
+  return {
+    'Access-Control-Allow-Origin': config.allowedOrigins.includes('*') ? '*' : origin!,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Device-Id',
+  };
+};
+
+const sendJson = (req: IncomingMessage, res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(req), ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/** Charges one request to the caller; answers 429 and returns false once it is over the limit. */
+const takeRateLimit = (req: IncomingMessage, res: ServerResponse, url: URL, deviceLimiter = limiter) => {
+  const limit = takeRequest(req, url, deviceLimiter);
+  if (!limit.allowed) {
+    sendJson(req, res, 429, { error: 'Too many requests' }, { 'Retry-After': String(limit.retryAfterSeconds) });
+  }
+  return limit.allowed;
+};
+
+/**
+ * Answers 413 and drops the connection, so a client that ignores the answer
+ * can't keep streaming the rest of an oversized body at us.
+ */
+const rejectTooLarge = (req: IncomingMessage, res: ServerResponse, error: string) => {
+  res.on('finish', () => req.destroy());
+  sendJson(req, res, 413, { error }, { Connection: 'close' });
+};
+
+/** Parses a buffered multipart body with the platform's own parser, via a fetch `Request`. */
+const parseForm = (body: Buffer, contentType: string | undefined) =>
+  new Request('http://localhost/', {
+    method: 'POST',
+    headers: contentType ? { 'Content-Type': contentType } : {},
+    body,
+  }).formData();
+
+const handleTranscribe = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!transcriber) {
+    sendJson(req, res, 503, { error: 'Transcription is not configured on this server' });
+    return;
+  }
+  const { maxUploadBytes } = config.transcription;
+  const tooLarge = `Uploads are limited to ${Math.round(maxUploadBytes / 1024 / 1024)} MB`;
+  if (Number(req.headers['content-length'] ?? 0) > maxUploadBytes) {
+    rejectTooLarge(req, res, tooLarge);
+    return;
+  }
+
+  let body: Buffer;
+  try {
+    body = await readBody(req, maxUploadBytes);
+  } catch (e) {
+    if (e instanceof BodyTooLargeError) rejectTooLarge(req, res, tooLarge);
+    else sendJson(req, res, 400, { error: 'Could not read the upload' });
+    return;
+  }
+
+  let audio: File;
+  let language: string | undefined;
+  try {
+    const form = await parseForm(body, req.headers['content-type']);
+    const field = form.get(TRANSCRIPTION_AUDIO_FIELD);
+    if (!(field instanceof File) || field.size === 0) {
+      sendJson(req, res, 400, { error: `Expected an audio file in the "${TRANSCRIPTION_AUDIO_FIELD}" field` });
+      return;
+    }
+    audio = field;
+    language = (form.get('language') as string | null) || undefined;
+  } catch {
+    sendJson(req, res, 400, { error: 'Expected a multipart/form-data body' });
+    return;
+  }
+
+  try {
+    const result = await transcriber.transcribe({
+      audio: Buffer.from(await audio.arrayBuffer()),
+      mimeType: audio.type || 'application/octet-stream',
+      fileName: audio.name || 'recording',
+      language,
+    });
+    sendJson(req, res, 200, result);
+  } catch (e) {
+    console.error(`Transcription with ${transcriber.kind} failed:`, e);
+    if (e instanceof TranscriptionTimeoutError) sendJson(req, res, 504, { error: 'Transcription timed out' });
+    else sendJson(req, res, 502, { error: 'Transcription failed' });
+  }
+};
+
+// Room for `maxChars` of text even if JSON escapes every character as \uXXXX.
+const speechBodyLimit = () => config.speech.maxChars * 6 + 1024;
+
+const readJson = async (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  JSON.parse((await readBody(req, maxBytes)).toString('utf8'));
+
+const isSpeechRequest = (body: unknown): body is SpeechRequest => {
+  if (!body || typeof body !== 'object') return false;
+  const { text, voice, rate, pitch } = body as Record<string, unknown>;
+  return (
+    typeof text === 'string' &&
+    (voice === undefined || typeof voice === 'string') &&
+    (rate === undefined || typeof rate === 'number') &&
+    (pitch === undefined || typeof pitch === 'number')
+  );
+};
+
+const handleSpeak = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!speaker) {
+    sendJson(req, res, 503, { error: 'Speech is not configured on this server' });
+    return;
+  }
+
+  let request: unknown;
+  try {
+    request = await readJson(req, speechBodyLimit());
+  } catch (e) {
+    if (e instanceof BodyTooLargeError) rejectTooLarge(req, res, `Text is limited to ${config.speech.maxChars} characters`);
+    else sendJson(req, res, 400, { error: 'Expected a JSON body' });
+    return;
+  }
+  if (!isSpeechRequest(request) || !request.text.trim()) {
+    sendJson(req, res, 400, { error: 'Expected { text, voice?, rate?, pitch? }' });
+    return;
+  }
+  if (request.text.length > config.speech.maxChars) {
+    sendJson(req, res, 413, { error: `Text is limited to ${config.speech.maxChars} characters` });
+    return;
+  }
+
+  try {
+    const { audio, mimeType } = await speaker.synthesize(request);
+    res.writeHead(200, { 'Content-Type': mimeType, 'Content-Length': audio.length, ...corsHeaders(req) });
+    res.end(audio);
+  } catch (e) {
+    console.error(`Speech with ${speaker.kind} failed:`, e);
+    sendJson(req, res, 502, { error: 'Speech failed' });
+  }
+};
+
+/** The request target as a URL, or null for one that doesn't parse (e.g. `//`). */
+const requestUrlOf = (req: IncomingMessage) => {
+  try {
+    return new URL(req.url ?? '/', 'http://localhost');
+  } catch {
+    return null;
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const url = requestUrlOf(req);
+  if (!url) {
+    sendJson(req, res, 400, { error: 'Malformed request target' });
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req));
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/') {
+    sendJson(req, res, 200, {
+      status: 'ok',
+      upstream: config.upstream,
+      transcription: transcriber?.kind ?? null,
+      speech: speaker?.kind ?? null,
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/tts/voices') {
+    if (!takeRateLimit(req, res, url, speechLimiter)) return;
+    sendJson(req, res, speaker ? 200 : 503, speaker ? { voices: speaker.voices } : { error: 'Speech is not configured on this server' });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/tts') {
+    if (!takeRateLimit(req, res, url, speechLimiter)) return;
+    await handleSpeak(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    if (!takeRateLimit(req, res, url)) return;
+    try {
+      sendJson(req, res, 200, await upstream.mintToken());
+    } catch (e) {
+      console.error('Failed to mint token:', e);
+      sendJson(req, res, 502, { error: 'Failed to mint token' });
+    }
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/transcribe') {
+    if (!takeRateLimit(req, res, url)) return;
+    await handleTranscribe(req, res);
+    return;
+  }
+
+  sendJson(req, res, 404, { error: 'Not found' });
+});
+
+const rejectUpgrade = (socket: Duplex, status: string) => {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+};
+
+server.on('upgrade', (req, socket, head) => {
+  const url = requestUrlOf(req);
+  if (!url) {
+    socket.destroy();
+    return;
+  }
+
+  const isStream = url.pathname === TRANSCRIPTION_STREAM_PATH;
+  if (!isStream && !url.pathname.startsWith(LIVE_PATH_PREFIX)) {
+    rejectUpgrade(socket, '404 Not Found');
+    return;
+  }
+  if (isStream && !transcriber) {
+    rejectUpgrade(socket, '503 Service Unavailable');
+    return;
+  }
+  if (!takeRequest(req, url).allowed) {
+    rejectUpgrade(socket, '429 Too Many Requests');
+    return;
+  }
+
+  wss.handleUpgrade(req, socket, head, (client) => {
+    if (isStream) attachTranscriptionStream(client, transcriber!, config.transcription.maxUploadBytes);
+    else upstream.attachLive(client, url.pathname);
+  });
+});
+
+server.listen(config.port, () => {
+  const transcription = transcriber ? `, ${transcriber.kind} transcription` : '';
+  const speech = speaker ? `, ${speaker.kind} speech` : '';
+  console.log(`Assistant server (${config.upstream} upstream${transcription}${speech}) listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,39 @@
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+import { describe, expect, it } from 'vitest';
+import { attachMockLive, parseMockLiveClientMessage } from './mock-live';
+import { portOf, sendInvalidFrame } from './ws-test-helpers';
+
+describe('parseMockLiveClientMessage', () => {
+  it('accepts well-formed messages', () => {
+    expect(parseMockLiveClientMessage('{"type":"audio","data":"AAAA"}')).toEqual({ type: 'audio', data: 'AAAA' });
+    expect(parseMockLiveClientMessage('{"type":"audioStreamEnd"}')).toEqual({ type: 'audioStreamEnd' });
+    expect(parseMockLiveClientMessage('{"type":"text","text":"hi"}')).toEqual({ type: 'text', text: 'hi' });
+  });
+
+  it('rejects frames that are not JSON', () => {
+    expect(parseMockLiveClientMessage('{"type":')).toBeNull();
+    expect(parseMockLiveClientMessage('')).toBeNull();
+  });
+
+  it('rejects unknown types and missing fields', () => {
+    expect(parseMockLiveClientMessage('null')).toBeNull();
+    expect(parseMockLiveClientMessage('[]')).toBeNull();
+    expect(parseMockLiveClientMessage('{"type":"launch"}')).toBeNull();
+    expect(parseMockLiveClientMessage('{"type":"audio","data":42}')).toBeNull();
+    expect(parseMockLiveClientMessage('{"type":"toolResponse","id":"1","response":"ok"}')).toBeNull();
+  });
+});
+
+describe('handleMockLiveConnection', () => {
+  it('drops a client that breaks the WebSocket protocol without crashing', async () => {
+    const server = createServer();
+    attachMockLive(new WebSocketServer({ server }), []);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await sendInvalidFrame(portOf(server));
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,270 @@
+import { randomUUID } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer, type WebSocket } from 'ws';
+import {
+  MOCK_LIVE_DEFAULT_PORT,
+  type MockLiveClientMessage,
+  type MockLiveServerMessage,
+} from '../src/lib/mock-live-protocol';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+// Respond on its own after this much streamed speech, for open-mic sessions.
+const AUTO_TURN_MS = 4000;
+
+export interface MockToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface MockFixture {
+  /** What the user is pretended to have said, reported as input transcription. */
+  prompt: string;
+  transcript: string;
+  pcm: Buffer;
+  /** Function call issued alongside the reply, as the live model would. */
+  toolCall?: MockToolCall;
+}
+
+const DEFAULT_FIXTURES: Omit<MockFixture, 'pcm'>[] = [
+  { prompt: 'Hello?', transcript: "Hi! I'm the mock assistant. Everything you hear is canned." },
+  {
+    prompt: 'Open YouTube.',
+    transcript: 'Sure, opening YouTube for you now.',
+    toolCall: { name: 'open_app', args: { app: 'YouTube' } },
+  },
+  {
+    prompt: 'Tell me about Iron Man.',
+    transcript: 'Iron Man came out in 2008. It is an action movie rated 7.9.',
+    toolCall: { name: 'focus_title', args: { title: 'Iron Man' } },
+  },
+  {
+    prompt: 'Show me action movies from 2008.',
+    transcript: 'Here are the action movies from 2008. Iron Man is the one to watch.',
+    toolCall: { name: 'search_catalog', args: { genre: 'Action', year_from: 2008, year_to: 2008, heading: 'Action movies from 2008' } },
+  },
+  { prompt: 'Mm, what was that one...', transcript: "I didn't quite catch that. Could you say it again?" },
+];
+
+/** A short warbling tone whose length tracks the transcript, so playback is audible. */
+const synthesizeSpeech = (transcript: string): Buffer => {
+  const seconds = Math.min(6, 0.5 + transcript.length * 0.04);
+  const samples = Math.floor(seconds * OUTPUT_SAMPLE_RATE);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = Math.min(1, t * 20, (seconds - t) * 20) * (0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t));
+    const value = Math.sin(2 * Math.PI * (180 + 40 * Math.sin(2 * Math.PI * 3 * t)) * t) * envelope * 0.3;
+    pcm.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return pcm;
+};
+
+/**
+ * Loads `<name>.pcm` (24 kHz s16le mono) and `<name>.txt` pairs from `dir`,
+ * plus an optional `<name>.prompt.txt` user transcript and `<name>.tool.json`
+ * function call, falling back to synthesized tones for the built-in transcripts.
+ */
+export const loadMockFixtures = (dir?: string): MockFixture[] => {
+  if (!dir) {
+    return DEFAULT_FIXTURES.map((fixture) => ({ ...fixture, pcm: synthesizeSpeech(fixture.transcript) }));
+  }
+
+  return readdirSync(dir)
+    .filter((file) => extname(file) === '.pcm')
+    .sort()
+    .map((file) => {
+      const name = basename(file, '.pcm');
+      let transcript = name;
+      try {
+        transcript = readFileSync(join(dir, `${name}.txt`), 'utf8').trim();
+      } catch {
+        // A missing transcript just falls back to the file name.
+      }
+      let prompt = '(speech)';
+      try {
+        prompt = readFileSync(join(dir, `${name}.prompt.txt`), 'utf8').trim();
+      } catch {
+        // The user side of the caption is optional.
+      }
+      let toolCall: MockToolCall | undefined;
+      try {
+        toolCall = JSON.parse(readFileSync(join(dir, `${name}.tool.json`), 'utf8'));
+      } catch {
+        // Most fixtures don't call a tool.
+      }
+      return { prompt, transcript, pcm: readFileSync(join(dir, file)), toolCall };
+    });
+};
+
+export interface CannedTurnSink {
+  inputTranscription(text: string): void;
+  /** A delta of the reply transcript, paced alongside its audio. */
+  outputTranscription(text: string): void;
+  toolCall(id: string, call: MockToolCall): void;
+  audio(base64Pcm: string): void;
+  turnComplete(): void;
+  interrupted(): void;
+}
+
+/**
+ * Turn-taking shared by the mock server and the stub upstream: waits for a turn
+ * of speech, then streams the next fixture back in real time.
+ */
+export const createCannedTurnPlayer = (fixtures: MockFixture[], sink: CannedTurnSink) => {
+  let nextFixture = 0;
+  let receivedMs = 0;
+  let playback: NodeJS.Timeout | null = null;
+
+  const stop = () => {
+    if (playback) clearTimeout(playback);
+    playback = null;
+  };
+
+  /** `typed` turns already show what the user wrote, so no input transcription is sent. */
+  const respond = (typed = false) => {
+    receivedMs = 0;
+    if (playback || fixtures.length === 0) return;
+
+    const fixture = fixtures[nextFixture++ % fixtures.length];
+    const chunkBytes = (OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000 * 2;
+    const words = fixture.transcript.split(/(?<=\s)/);
+    let offset = 0;
+    let spokenWords = 0;
+
+    if (!typed) sink.inputTranscription(fixture.prompt);
+    if (fixture.toolCall) sink.toolCall(randomUUID(), fixture.toolCall);
+
+    const sendChunk = () => {
+      if (offset >= fixture.pcm.length) {
+        playback = null;
+        sink.turnComplete();
+        return;
+      }
+      sink.audio(fixture.pcm.subarray(offset, offset + chunkBytes).toString('base64'));
+      offset += chunkBytes;
+      // Reveal the transcript in step with the audio, like streamed output transcription.
+      const dueWords = Math.ceil((Math.min(offset, fixture.pcm.length) / fixture.pcm.length) * words.length);
+      if (dueWords > spokenWords) {
+        sink.outputTranscription(words.slice(spokenWords, dueWords).join(''));
+        spokenWords = dueWords;
+      }
+      playback = setTimeout(sendChunk, CHUNK_MS);
+    };
+    sendChunk();
+  };
+
+  return {
+    /** Counts 16 kHz input audio; responds on its own after a long stretch. */
+    audio(base64Pcm: string) {
+      const bytes = Buffer.byteLength(base64Pcm, 'base64');
+      receivedMs += (bytes / 2 / INPUT_SAMPLE_RATE) * 1000;
+      if (receivedMs >= AUTO_TURN_MS) respond();
+    },
+    streamEnd() {
+      if (receivedMs > 0) respond();
+    },
+    /** A typed turn; answered with the next canned reply whatever it says. */
+    text() {
+      respond(true);
+    },
+    interrupt() {
+      if (playback) {
+        stop();
+        sink.interrupted();
+      }
+    },
+    stop,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A client frame, or null if it isn't JSON or doesn't match `MockLiveClientMessage`. */
+export const parseMockLiveClientMessage = (raw: string): MockLiveClientMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) return null;
+
+  switch (message.type) {
+    case 'audio':
+      return typeof message.data === 'string' ? (message as MockLiveClientMessage) : null;
+    case 'audioStreamEnd':
+    case 'interrupt':
+      return message as MockLiveClientMessage;
+    case 'text':
+      return typeof message.text === 'string' ? (message as MockLiveClientMessage) : null;
+    case 'context':
+      return Array.isArray(message.turns) ? (message as MockLiveClientMessage) : null;
+    case 'toolResponse':
+      return typeof message.id === 'string' && isRecord(message.response) ? (message as MockLiveClientMessage) : null;
+    default:
+      return null;
+  }
+};
+
+/** Serves one `MockVoiceProvider` client. */
+export const handleMockLiveConnection = (socket: WebSocket, fixtures: MockFixture[]) => {
+  const send = (message: MockLiveServerMessage) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const player = createCannedTurnPlayer(fixtures, {
+    inputTranscription: (text) => send({ type: 'inputTranscription', text }),
+    outputTranscription: (text) => send({ type: 'outputTranscription', text }),
+    toolCall: (id, { name, args }) => send({ type: 'toolCall', id, name, args }),
+    audio: (data) => send({ type: 'audio', data }),
+    turnComplete: () => send({ type: 'turnComplete' }),
+    interrupted: () => send({ type: 'interrupted' }),
+  });
+
+  socket.on('message', (raw) => {
+    const message = parseMockLiveClientMessage(raw.toString());
+    if (!message) {
+      // 1007: the frame's content is not what the protocol allows.
+      socket.close(1007, 'Malformed message');
+      return;
+    }
+    switch (message.type) {
+      case 'audio':
+        player.audio(message.data);
+        break;
+      case 'audioStreamEnd':
+        player.streamEnd();
+        break;
+      case 'interrupt':
+        player.interrupt();
+        break;
+      case 'text':
+        player.text();
+        break;
+      case 'context':
+        // Canned replies ignore earlier turns and screen context.
+        break;
+    }
+  });
+
+  // ws emits 'error' for protocol violations and closes the socket itself; unheard, it would end the process.
+  socket.on('error', (error) => console.warn('Mock live client error:', error.message));
+  socket.on('close', player.stop);
+  send({ type: 'ready' });
+};
+
+export const attachMockLive = (wss: WebSocketServer, fixtures = loadMockFixtures()) => {
+  wss.on('connection', (socket) => handleMockLiveConnection(socket, fixtures));
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_LIVE_PORT ?? MOCK_LIVE_DEFAULT_PORT);
+  const wss = new WebSocketServer({ port });
+  attachMockLive(wss, loadMockFixtures(process.env.MOCK_LIVE_FIXTURES));
+  console.log(`Mock live assistant listening on ws://localhost:${port}`);
+}
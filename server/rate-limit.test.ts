@@ -0,0 +1,77 @@
+import type { IncomingMessage } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { clientAddressOf, deviceKeyOf, RateLimiter } from './rate-limit';
+
+const limiterAt = (perMinute: number) => {
+  const clock = { now: 0 };
+  return { clock, limiter: new RateLimiter(perMinute, () => clock.now) };
+};
+
+describe('RateLimiter', () => {
+  it('allows a burst of up to the per-minute budget, then refuses', () => {
+    const { limiter } = limiterAt(3);
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterSeconds: 20 });
+  });
+
+  it('refills continuously at the per-minute rate', () => {
+    const { clock, limiter } = limiterAt(6);
+    for (let i = 0; i < 6; i++) limiter.take('a');
+    clock.now = 9_999;
+    expect(limiter.take('a').allowed).toBe(false);
+    clock.now = 15_000;
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('keeps separate buckets per key', () => {
+    const { limiter } = limiterAt(1);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('prunes only buckets that have fully refilled', () => {
+    const { clock, limiter } = limiterAt(1);
+    limiter.take('a');
+    limiter.prune();
+    expect(limiter.take('a').allowed).toBe(false);
+    clock.now = 60_000;
+    limiter.prune();
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
+
+const request = (headers: IncomingMessage['headers'], remoteAddress = '10.0.0.9') =>
+  ({ headers, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+describe('clientAddressOf', () => {
+  it('uses the peer address unless a proxy is trusted', () => {
+    const req = request({ 'x-forwarded-for': '203.0.113.7' });
+    expect(clientAddressOf(req, false)).toBe('10.0.0.9');
+    expect(clientAddressOf(req, true)).toBe('203.0.113.7');
+  });
+
+  it('takes the hop the proxy appended, not ones the client sent', () => {
+    expect(clientAddressOf(request({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }), true)).toBe('203.0.113.7');
+    expect(clientAddressOf(request({}), true)).toBe('10.0.0.9');
+  });
+});
+
+describe('deviceKeyOf', () => {
+  const url = new URL('http://localhost/ws/live?key=tv-2');
+
+  it('scopes the device id to the address', () => {
+    expect(deviceKeyOf(request({ 'x-device-id': 'tv-1' }), url, '10.0.0.9')).toBe('10.0.0.9 tv-1');
+    expect(deviceKeyOf(request({}), url, '10.0.0.9')).toBe('10.0.0.9 tv-2');
+    expect(deviceKeyOf(request({}), new URL('http://localhost/token'), '10.0.0.9')).toBe('10.0.0.9 ');
+  });
+
+  it('gives TVs behind one address a bucket each', () => {
+    const limiter = new RateLimiter(1, () => 0);
+    const noUrl = new URL('http://localhost/token');
+    expect(limiter.take(deviceKeyOf(request({ 'x-device-id': 'tv-1' }), noUrl, 'nat')).allowed).toBe(true);
+    expect(limiter.take(deviceKeyOf(request({ 'x-device-id': 'tv-2' }), noUrl, 'nat')).allowed).toBe(true);
+    expect(limiter.take(deviceKeyOf(request({ 'x-device-id': 'tv-1' }), noUrl, 'nat')).allowed).toBe(false);
+  });
+});
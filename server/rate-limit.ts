@@ -0,0 +1,68 @@
+import type { IncomingMessage } from 'node:http';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket per key. Each key may burst up to `perMinute` requests and
+ * then refills continuously at that rate.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(
+    private perMinute: number,
+    private now: () => number = Date.now,
+  ) {}
+
+  /** Consumes one request for `key`; returns the seconds to wait when refused. */
+  take(key: string): { allowed: true } | { allowed: false; retryAfterSeconds: number } {
+    const now = this.now();
+    const refillPerMs = this.perMinute / 60_000;
+    const bucket = this.buckets.get(key) ?? { tokens: this.perMinute, updatedAt: now };
+
+    bucket.tokens = Math.min(this.perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true };
+    }
+    return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+  }
+
+  /** Drops buckets that have fully refilled, so idle devices don't accumulate. */
+  prune() {
+    const now = this.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * (this.perMinute / 60_000) >= this.perMinute) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Where a request comes from: the peer address, or behind a trusted reverse
+ * proxy the client it forwarded for (the last `X-Forwarded-For` hop, which
+ * the proxy itself appended).
+ */
+export const clientAddressOf = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = trustProxy ? req.headers['x-forwarded-for'] : undefined;
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : (forwarded ?? '')).split(',');
+  return hops.at(-1)?.trim() || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Bucket for one TV: its device id (`X-Device-Id`, or the `key` param on
+ * WebSockets, which can't carry headers) scoped to its address. TVs sharing a
+ * NAT get a bucket each, and a made-up id can't drain a device elsewhere.
+ */
+export const deviceKeyOf = (req: IncomingMessage, url: URL, address: string) => {
+  const header = req.headers['x-device-id'];
+  const deviceId = (typeof header === 'string' ? header : url.searchParams.get('key')) ?? '';
+  return `${address} ${deviceId.slice(0, 128)}`;
+};
@@ -0,0 +1,97 @@
+import type { SpeechConfig, SpeechEngineKind } from './config';
+import type { SpeechRequest, SpeechVoice } from '../src/lib/speech-protocol';
+import { encodeWav } from '../src/lib/wav';
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  mimeType: string;
+}
+
+/** Something that turns text into a playable clip. */
+export interface SpeechEngine {
+  readonly kind: SpeechEngineKind;
+  readonly voices: SpeechVoice[];
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// OpenAI's built-in voices, which compatible servers usually mirror. They speak any language.
+const OPENAI_VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+/** An OpenAI-compatible `/v1/audio/speech` endpoint, e.g. OpenAI itself, Kokoro-FastAPI or LocalAI. */
+class OpenAiHttpEngine implements SpeechEngine {
+  readonly kind = 'openai-http';
+  readonly voices = OPENAI_VOICES.map((id) => ({ id, name: id[0].toUpperCase() + id.slice(1), language: '' }));
+
+  constructor(private config: SpeechConfig) {}
+
+  async synthesize({ text, voice, rate }: SpeechRequest): Promise<SynthesizedSpeech> {
+    const response = await fetch(this.config.speechUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.speechApiKey ? { Authorization: `Bearer ${this.config.speechApiKey}` } : {}),
+      },
+      // The API has no pitch control, so pitch is dropped.
+      body: JSON.stringify({
+        model: this.config.speechModel,
+        input: text,
+        voice: voice || this.config.speechVoice,
+        speed: clamp(rate ?? 1, 0.25, 4),
+        response_format: 'mp3',
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Speech endpoint answered ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return { audio: Buffer.from(await response.arrayBuffer()), mimeType: response.headers.get('content-type') ?? 'audio/mpeg' };
+  }
+}
+
+const FAKE_SAMPLE_RATE = 16000;
+// About normal speaking pace, so word highlighting moves believably.
+const FAKE_SECONDS_PER_CHAR = 0.06;
+
+/**
+ * A soft beep per word, as long as the word would take to say, with the pitch
+ * and rate applied. Needs no model or network.
+ */
+class FakeEngine implements SpeechEngine {
+  readonly kind = 'fake';
+  readonly voices = [{ id: 'beep', name: 'Test beeps', language: '' }];
+
+  async synthesize({ text, rate, pitch }: SpeechRequest): Promise<SynthesizedSpeech> {
+    const secondsPerChar = FAKE_SECONDS_PER_CHAR / clamp(rate ?? 1, 0.25, 4);
+    const frequency = 440 * clamp(pitch ?? 1, 0.5, 2);
+    const words = text.split(/\s+/).filter(Boolean);
+    const gap = Math.round(secondsPerChar * FAKE_SAMPLE_RATE);
+    const lengths = words.map((word) => Math.round(word.length * secondsPerChar * FAKE_SAMPLE_RATE));
+    const samples = new Int16Array(lengths.reduce((sum, length) => sum + length + gap, 0));
+
+    let offset = 0;
+    lengths.forEach((length) => {
+      for (let i = 0; i < length; i++) {
+        // Fade each beep in and out so it doesn't click.
+        const envelope = Math.min(1, i / 200, (length - i) / 200);
+        samples[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / FAKE_SAMPLE_RATE) * envelope * 6000);
+      }
+      offset += length + gap;
+    });
+
+    const wav = encodeWav([samples], FAKE_SAMPLE_RATE);
+    return { audio: Buffer.from(await wav.arrayBuffer()), mimeType: 'audio/wav' };
+  }
+}
+
+/** The configured engine, or null when speech is turned off. */
+export const createSpeechEngine = (config: SpeechConfig): SpeechEngine | null => {
+  switch (config.engine) {
+    case 'openai-http':
+      return new OpenAiHttpEngine(config);
+    case 'fake':
+      return new FakeEngine();
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,125 @@
+import { createServer } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { TranscriptionEngine, TranscriptionInput } from './transcription';
+import { attachTranscriptionStream, parseTranscriptionStreamClientMessage } from './transcription-stream';
+import { portOf, sendInvalidFrame } from './ws-test-helpers';
+import type { TranscriptionStreamServerMessage } from '../src/lib/transcription-protocol';
+
+const SECOND_BYTES = 16000 * 2;
+const WAV_HEADER_BYTES = 44;
+
+/** Answers every call at once, recording how much audio each one was given. */
+const countingEngine = () => {
+  const audioBytes: number[] = [];
+  const engine: TranscriptionEngine = {
+    kind: 'fake',
+    transcribe: async ({ audio }: TranscriptionInput) => {
+      audioBytes.push(audio.length - WAV_HEADER_BYTES);
+      return { text: `call ${audioBytes.length}`, language: 'en', segments: [] };
+    },
+  };
+  return { engine, audioBytes };
+};
+
+const servers: ReturnType<typeof createServer>[] = [];
+
+afterEach(() => {
+  servers.splice(0).forEach((server) => server.close());
+});
+
+const listen = async (engine: TranscriptionEngine, maxBytes = 100 * SECOND_BYTES) => {
+  const server = createServer();
+  servers.push(server);
+  new WebSocketServer({ server }).on('connection', (client) => attachTranscriptionStream(client, engine, maxBytes));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return portOf(server);
+};
+
+/** A connected client that collects what the server sends and how it closed. */
+const connectTo = async (port: number) => {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  const messages: TranscriptionStreamServerMessage[] = [];
+  const waiters: (() => void)[] = [];
+  socket.on('message', (data) => {
+    messages.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach((wake) => wake());
+  });
+  const closed = new Promise<number>((resolve) => socket.on('close', resolve));
+  await new Promise((resolve) => socket.once('open', resolve));
+  const nextMessage = () => new Promise<void>((resolve) => waiters.push(resolve));
+  return { socket, messages, closed, nextMessage };
+};
+
+describe('parseTranscriptionStreamClientMessage', () => {
+  it('accepts start and stop', () => {
+    expect(parseTranscriptionStreamClientMessage('{"type":"start","language":"fr"}')).toEqual({ type: 'start', language: 'fr' });
+    expect(parseTranscriptionStreamClientMessage('{"type":"stop"}')).toEqual({ type: 'stop' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTranscriptionStreamClientMessage('null')).toBeNull();
+    expect(parseTranscriptionStreamClientMessage('nope')).toBeNull();
+    expect(parseTranscriptionStreamClientMessage('{"type":"pause"}')).toBeNull();
+    expect(parseTranscriptionStreamClientMessage('{"type":"start","language":7}')).toBeNull();
+  });
+});
+
+describe('attachTranscriptionStream', () => {
+  it('sends partials over the latest audio only and a final over all of it', async () => {
+    const { engine, audioBytes } = countingEngine();
+    const client = await connectTo(await listen(engine));
+    client.socket.send(JSON.stringify({ type: 'start' }));
+    for (let i = 0; i < 12; i++) {
+      client.socket.send(Buffer.alloc(SECOND_BYTES));
+      await client.nextMessage();
+    }
+    client.socket.send(JSON.stringify({ type: 'stop' }));
+
+    expect(await client.closed).toBe(1000);
+    expect(client.messages.at(-1)).toMatchObject({ type: 'final' });
+    expect(Math.max(...audioBytes.slice(0, -1))).toBe(8 * SECOND_BYTES);
+    expect(audioBytes.at(-1)).toBe(12 * SECOND_BYTES);
+  });
+
+  it('stops sending partials once a stream has had its share', async () => {
+    const { engine, audioBytes } = countingEngine();
+    const client = await connectTo(await listen(engine));
+    client.socket.send(JSON.stringify({ type: 'start' }));
+    for (let i = 0; i < 30; i++) {
+      client.socket.send(Buffer.alloc(SECOND_BYTES));
+      await client.nextMessage();
+    }
+    client.socket.send(Buffer.alloc(SECOND_BYTES));
+    client.socket.send(Buffer.alloc(SECOND_BYTES));
+    client.socket.send(JSON.stringify({ type: 'stop' }));
+
+    await client.closed;
+    expect(client.messages.filter((message) => message.type === 'partial')).toHaveLength(30);
+    expect(audioBytes).toHaveLength(31);
+  });
+
+  it('closes with 1007 on a control frame that is valid JSON but not a message', async () => {
+    const client = await connectTo(await listen(countingEngine().engine));
+    client.socket.send('null');
+    expect(await client.closed).toBe(1007);
+    expect(client.messages).toEqual([{ type: 'error', error: 'Expected a start or stop control message' }]);
+  });
+
+  it('closes with 1008 on audio before start', async () => {
+    const client = await connectTo(await listen(countingEngine().engine));
+    client.socket.send(Buffer.alloc(2));
+    expect(await client.closed).toBe(1008);
+  });
+
+  it('closes with 1009 once the recording passes the limit', async () => {
+    const client = await connectTo(await listen(countingEngine().engine, 10));
+    client.socket.send(JSON.stringify({ type: 'start' }));
+    client.socket.send(Buffer.alloc(12));
+    expect(await client.closed).toBe(1009);
+  });
+
+  it('drops a client that breaks the WebSocket protocol without crashing', async () => {
+    await sendInvalidFrame(await listen(countingEngine().engine));
+  });
+});
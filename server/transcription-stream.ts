@@ -0,0 +1,148 @@
+import type { RawData, WebSocket } from 'ws';
+import { TranscriptionTimeoutError, type TranscriptionEngine } from './transcription';
+import { encodeWav } from '../src/lib/wav';
+import {
+  TRANSCRIPTION_STREAM_SAMPLE_RATE,
+  type TranscriptionStreamClientMessage,
+  type TranscriptionStreamServerMessage,
+} from '../src/lib/transcription-protocol';
+
+// A fresh hypothesis after each second of new audio.
+const PARTIAL_EVERY_BYTES = TRANSCRIPTION_STREAM_SAMPLE_RATE * 2;
+// Partials only re-read the latest stretch of audio, so each costs the same however long the user talks.
+const PARTIAL_WINDOW_BYTES = TRANSCRIPTION_STREAM_SAMPLE_RATE * 2 * 8;
+// Each partial is a full engine call (a paid one on whisper-http); past this the stream only gets its final result.
+const MAX_PARTIALS_PER_STREAM = 30;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A control frame, or null if it isn't JSON or isn't `start`/`stop`. */
+export const parseTranscriptionStreamClientMessage = (raw: string): TranscriptionStreamClientMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) return null;
+  if (message.type === 'stop') return { type: 'stop' };
+  if (message.type !== 'start') return null;
+  if (message.language !== undefined && typeof message.language !== 'string') return null;
+  return { type: 'start', language: message.language };
+};
+
+/** The last `maxBytes` of the recording, cut on a sample boundary. */
+const tail = (chunks: Buffer[], maxBytes: number) => {
+  const picked: Buffer[] = [];
+  let bytes = 0;
+  for (let i = chunks.length - 1; i >= 0 && bytes < maxBytes; i--) {
+    picked.unshift(chunks[i]);
+    bytes += chunks[i].length;
+  }
+  const audio = Buffer.concat(picked);
+  const excess = audio.length - maxBytes;
+  return excess > 0 ? audio.subarray(excess + (excess % 2)) : audio;
+};
+
+const toWav = async (pcm: Buffer) => {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.length / 2));
+  return Buffer.from(await encodeWav([samples], TRANSCRIPTION_STREAM_SAMPLE_RATE).arrayBuffer());
+};
+
+/**
+ * Runs one streaming transcription over `client`: buffers PCM as it arrives,
+ * sends partial hypotheses while the user speaks and the final result once
+ * they stop, then closes the socket.
+ */
+export const attachTranscriptionStream = (client: WebSocket, engine: TranscriptionEngine, maxBytes: number) => {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  let bytesAtLastPartial = 0;
+  let language: string | undefined;
+  let started = false;
+  let finished = false;
+  let pending: Promise<void> = Promise.resolve();
+  let partialRunning = false;
+  let partials = 0;
+
+  const send = (message: TranscriptionStreamServerMessage) => {
+    if (client.readyState === client.OPEN) client.send(JSON.stringify(message));
+  };
+
+  /** `code` 1011 is our fault; the client's mistakes get 1007 (bad frame), 1008 (out of order) or 1009 (too long). */
+  const fail = (error: string, code = 1011) => {
+    finished = true;
+    send({ type: 'error', error });
+    client.close(code, error.slice(0, 120));
+  };
+
+  const transcribe = async (pcm: Buffer) =>
+    engine.transcribe({ audio: await toWav(pcm), mimeType: 'audio/wav', fileName: 'stream.wav', language });
+
+  const partial = () => {
+    partialRunning = true;
+    partials++;
+    bytesAtLastPartial = bytes;
+    pending = transcribe(tail(chunks, PARTIAL_WINDOW_BYTES))
+      .then(({ text }) => {
+        if (!finished) send({ type: 'partial', text });
+      })
+      // A failed partial isn't fatal; the final pass reports any real problem.
+      .catch((e) => console.warn(`Partial transcription with ${engine.kind} failed:`, e))
+      .finally(() => {
+        partialRunning = false;
+      });
+  };
+
+  const finish = async () => {
+    finished = true;
+    await pending;
+    try {
+      send({ type: 'final', result: await transcribe(Buffer.concat(chunks)) });
+      client.close(1000);
+    } catch (e) {
+      console.error(`Transcription with ${engine.kind} failed:`, e);
+      fail(e instanceof TranscriptionTimeoutError ? 'Transcription timed out' : 'Transcription failed');
+    }
+  };
+
+  client.on('message', (data: RawData, isBinary) => {
+    if (finished) return;
+
+    if (!isBinary) {
+      const message = parseTranscriptionStreamClientMessage(data.toString());
+      if (!message) {
+        fail('Expected a start or stop control message', 1007);
+      } else if (message.type === 'start') {
+        started = true;
+        language = message.language || undefined;
+      } else {
+        finish();
+      }
+      return;
+    }
+
+    if (!started) {
+      fail('Send start before audio', 1008);
+      return;
+    }
+    const chunk = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+    bytes += chunk.length;
+    if (bytes > maxBytes) {
+      fail('Recording is too long to transcribe', 1009);
+      return;
+    }
+    chunks.push(chunk);
+    if (!partialRunning && partials < MAX_PARTIALS_PER_STREAM && bytes - bytesAtLastPartial >= PARTIAL_EVERY_BYTES) {
+      partial();
+    }
+  });
+
+  // ws emits 'error' for protocol violations and closes the socket itself; unheard, it would end the process.
+  client.on('error', (err) => console.warn('Transcription stream socket error:', err.message));
+  // Nobody is left to read partials, so stop starting them.
+  client.on('close', () => {
+    finished = true;
+  });
+};
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadConfig } from './config';
+import { createTranscriptionEngine, TranscriptionTimeoutError } from './transcription';
+
+const whisperHttp = () =>
+  createTranscriptionEngine(loadConfig({ UPSTREAM: 'stub', TRANSCRIBE_ENGINE: 'whisper-http', WHISPER_URL: 'http://whisper.test' }).transcription)!;
+
+const input = { audio: Buffer.from('audio'), mimeType: 'audio/webm', fileName: 'recording.webm' };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('whisper-http engine', () => {
+  it('gives up on an endpoint that never answers', async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    });
+    vi.stubGlobal('fetch', fetch);
+    await expect(whisperHttp().transcribe(input)).rejects.toBeInstanceOf(TranscriptionTimeoutError);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it('passes other failures through', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('overloaded', { status: 503 })));
+    const failure = whisperHttp().transcribe(input);
+    await expect(failure).rejects.toThrow('Whisper endpoint answered 503: overloaded');
+    await expect(failure).rejects.not.toBeInstanceOf(TranscriptionTimeoutError);
+  });
+});
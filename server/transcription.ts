@@ -0,0 +1,201 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type { TranscriptionConfig, TranscriptionEngineKind } from './config';
+import type { TranscriptionResult, TranscriptionSegment } from '../src/lib/transcription-protocol';
+import { parseWav } from '../src/lib/wav';
+
+const run = promisify(execFile);
+
+// Long recordings on a slow CPU or a busy endpoint can take a while; anything past this is stuck.
+const TRANSCRIPTION_TIMEOUT_MS = 5 * 60_000;
+
+/** An engine gave up waiting on its endpoint or subprocess. */
+export class TranscriptionTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Transcription took longer than ${timeoutMs / 1000}s`);
+    this.name = 'TranscriptionTimeoutError';
+  }
+}
+
+export interface TranscriptionInput {
+  audio: Buffer;
+  mimeType: string;
+  fileName: string;
+  /** BCP-47 hint from the client; engines detect the language without it. */
+  language?: string;
+}
+
+/** Something that turns a recording into text with segment timestamps. */
+export interface TranscriptionEngine {
+  readonly kind: TranscriptionEngineKind;
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>;
+}
+
+const joinSegments = (segments: TranscriptionSegment[]) =>
+  segments
+    .map((segment) => segment.text)
+    .join(' ')
+    .trim();
+
+const asSeconds = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+/** An OpenAI-compatible transcription endpoint, e.g. OpenAI itself, faster-whisper-server or LocalAI. */
+class WhisperHttpEngine implements TranscriptionEngine {
+  readonly kind = 'whisper-http';
+
+  constructor(private config: TranscriptionConfig) {}
+
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    try {
+      return await this.request(input);
+    } catch (e) {
+      // AbortSignal.timeout aborts with a TimeoutError, whether in the request or while reading the body.
+      if (e instanceof Error && e.name === 'TimeoutError') throw new TranscriptionTimeoutError(TRANSCRIPTION_TIMEOUT_MS);
+      throw e;
+    }
+  }
+
+  private async request({ audio, mimeType, fileName, language }: TranscriptionInput): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), fileName);
+    form.append('model', this.config.whisperModel);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    if (language) form.append('language', language.split('-')[0]);
+
+    const response = await fetch(this.config.whisperUrl, {
+      method: 'POST',
+      headers: this.config.whisperApiKey ? { Authorization: `Bearer ${this.config.whisperApiKey}` } : {},
+      body: form,
+      signal: AbortSignal.timeout(TRANSCRIPTION_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Whisper endpoint answered ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const body = (await response.json()) as { text?: string; language?: string; segments?: Record<string, unknown>[] };
+    const segments = (body.segments ?? []).map((segment) => ({
+      start: asSeconds(segment.start),
+      end: asSeconds(segment.end),
+      text: String(segment.text ?? '').trim(),
+    }));
+    return { text: (body.text ?? joinSegments(segments)).trim(), language: body.language || null, segments };
+  }
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: { offsets: { from: number; to: number }; text: string }[];
+}
+
+/**
+ * whisper.cpp run as a subprocess. It only reads 16 kHz WAV, so uploads
+ * (usually webm/opus from the browser) are converted with ffmpeg first.
+ */
+class WhisperCppEngine implements TranscriptionEngine {
+  readonly kind = 'whisper-cpp';
+
+  constructor(private config: TranscriptionConfig) {}
+
+  async transcribe(input: TranscriptionInput): Promise<TranscriptionResult> {
+    try {
+      return await this.runWhisper(input);
+    } catch (e) {
+      // execFile kills a subprocess that outlives its timeout and reports it as `killed`.
+      if ((e as { killed?: boolean }).killed) throw new TranscriptionTimeoutError(TRANSCRIPTION_TIMEOUT_MS);
+      throw e;
+    }
+  }
+
+  private async runWhisper({ audio, language }: TranscriptionInput): Promise<TranscriptionResult> {
+    const dir = await mkdtemp(join(tmpdir(), 'atlas-transcribe-'));
+    try {
+      const upload = join(dir, 'upload');
+      const wav = join(dir, 'audio.wav');
+      const output = join(dir, 'transcript');
+      await writeFile(upload, audio);
+
+      await run(
+        this.config.ffmpegBinary,
+        ['-nostdin', '-loglevel', 'error', '-i', upload, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav],
+        { timeout: TRANSCRIPTION_TIMEOUT_MS },
+      );
+      await run(
+        this.config.whisperCppBinary,
+        ['-m', this.config.whisperCppModel, '-f', wav, '-l', language?.split('-')[0] ?? 'auto', '-oj', '-of', output, '-np'],
+        { timeout: TRANSCRIPTION_TIMEOUT_MS },
+      );
+
+      const result = JSON.parse(await readFile(`${output}.json`, 'utf8')) as WhisperCppOutput;
+      const segments = (result.transcription ?? []).map((segment) => ({
+        start: segment.offsets.from / 1000,
+        end: segment.offsets.to / 1000,
+        text: segment.text.trim(),
+      }));
+      return { text: joinSegments(segments), language: result.result?.language ?? null, segments };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+const FAKE_TRANSCRIPT = 'Show me action movies from 2008. Then open YouTube.';
+// Roughly conversational pace, so fake segments have believable timestamps.
+const FAKE_WORDS_PER_SECOND = 2.5;
+
+/** Seconds of audio in a WAV upload, or null for anything else. */
+const wavDuration = (audio: Buffer, mimeType: string) => {
+  if (!mimeType.includes('wav')) return null;
+  try {
+    const { samples, sampleRate } = parseWav(audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.length) as ArrayBuffer);
+    return samples.length / sampleRate;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Answers with a fixed transcript (`FAKE_TRANSCRIPT` to override), one segment
+ * per sentence. WAV audio gets only the words that fit its length at a steady
+ * pace, so streamed partials grow as the recording does. Needs no model,
+ * network or binaries.
+ */
+class FakeEngine implements TranscriptionEngine {
+  readonly kind = 'fake';
+
+  constructor(private transcript: string = process.env.FAKE_TRANSCRIPT || FAKE_TRANSCRIPT) {}
+
+  async transcribe({ audio, mimeType, language }: TranscriptionInput): Promise<TranscriptionResult> {
+    const duration = wavDuration(audio, mimeType);
+    let wordsLeft = duration === null ? Infinity : Math.floor(duration * FAKE_WORDS_PER_SECOND);
+    let time = 0;
+    const segments: TranscriptionSegment[] = [];
+
+    for (const sentence of this.transcript.match(/[^.!?]+[.!?]*/g) ?? []) {
+      const words = sentence.trim().split(/\s+/).slice(0, wordsLeft);
+      if (words.length === 0) break;
+      wordsLeft -= words.length;
+      const start = time;
+      time += words.length / FAKE_WORDS_PER_SECOND;
+      segments.push({ start: Math.round(start * 100) / 100, end: Math.round(time * 100) / 100, text: words.join(' ') });
+    }
+    return { text: joinSegments(segments), language: language ?? 'en', segments };
+  }
+}
+
+/** The configured engine, or null when transcription is turned off. */
+export const createTranscriptionEngine = (config: TranscriptionConfig): TranscriptionEngine | null => {
+  switch (config.engine) {
+    case 'whisper-http':
+      return new WhisperHttpEngine(config);
+    case 'whisper-cpp':
+      return new WhisperCppEngine(config);
+    case 'fake':
+      return new FakeEngine();
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,41 @@
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+import { describe, expect, it } from 'vitest';
+import { loadConfig } from './config';
+import { createUpstream, LIVE_PATH_PREFIX, parseStubClientMessage } from './upstream';
+import { portOf, sendInvalidFrame } from './ws-test-helpers';
+
+describe('parseStubClientMessage', () => {
+  it('accepts Live API client messages', () => {
+    expect(parseStubClientMessage('{"setup":{"model":"m"}}')).toEqual({ setup: { model: 'm' } });
+    expect(parseStubClientMessage('{"realtimeInput":{"mediaChunks":[{"data":"AA"}]}}')).not.toBeNull();
+    expect(parseStubClientMessage('{"realtimeInput":{"audioStreamEnd":true}}')).not.toBeNull();
+  });
+
+  it('rejects frames that are not JSON objects', () => {
+    expect(parseStubClientMessage('not json')).toBeNull();
+    expect(parseStubClientMessage('42')).toBeNull();
+    expect(parseStubClientMessage('null')).toBeNull();
+  });
+
+  it('rejects fields with the wrong shape', () => {
+    expect(parseStubClientMessage('{"setup":true}')).toBeNull();
+    expect(parseStubClientMessage('{"realtimeInput":{"mediaChunks":5}}')).toBeNull();
+    expect(parseStubClientMessage('{"realtimeInput":{"mediaChunks":[null]}}')).toBeNull();
+    expect(parseStubClientMessage('{"realtimeInput":{"audio":{"data":1}}}')).toBeNull();
+  });
+});
+
+describe('StubUpstream.attachLive', () => {
+  it('drops a client that breaks the WebSocket protocol without crashing', async () => {
+    const upstream = createUpstream(loadConfig({ UPSTREAM: 'stub' }));
+    const server = createServer();
+    new WebSocketServer({ server }).on('connection', (client) => upstream.attachLive(client, LIVE_PATH_PREFIX));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await sendInvalidFrame(portOf(server));
+    } finally {
+      server.close();
+    }
+  });
+});
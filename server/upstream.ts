@@ -0,0 +1,192 @@
+import { randomUUID } from 'node:crypto';
+import { GoogleGenAI } from '@google/genai';
+import { WebSocket, type RawData } from 'ws';
+import type { ServerConfig } from './config';
+import { createCannedTurnPlayer, loadMockFixtures } from './mock-live';
+
+const GEMINI_WS_HOST = 'wss://generativelanguage.googleapis.com';
+// Only the live endpoints may be proxied, never arbitrary API paths.
+export const LIVE_PATH_PREFIX = '/ws/google.ai.generativelanguage.';
+
+export interface MintedToken {
+  token: string;
+  expiresAt: string;
+}
+
+/** Where tokens and live sessions actually come from. */
+export interface LiveUpstream {
+  mintToken(): Promise<MintedToken>;
+  /** Bridges a browser socket that connected to `path` (already validated) to a live session. */
+  attachLive(client: WebSocket, path: string): void;
+}
+
+// Client frames held while the upstream socket connects; a few seconds of audio fit easily.
+const MAX_PENDING_BYTES = 2 * 1024 * 1024;
+
+const rawLength = (data: RawData) =>
+  Array.isArray(data) ? data.reduce((sum, chunk) => sum + chunk.length, 0) : data instanceof ArrayBuffer ? data.byteLength : data.length;
+
+/** WebSocket close codes that may be echoed back; 1005/1006 are reserved for local use. */
+const forwardableCode = (code: number) => (code === 1000 || (code >= 3000 && code < 5000) ? code : 1011);
+
+class GeminiUpstream implements LiveUpstream {
+  private client: GoogleGenAI;
+
+  constructor(private config: ServerConfig) {
+    this.client = new GoogleGenAI({ apiKey: config.geminiApiKey });
+  }
+
+  async mintToken(): Promise<MintedToken> {
+    const now = Date.now();
+    const expireTime = new Date(now + 30 * 60_000).toISOString();
+    const token = await this.client.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime: new Date(now + this.config.tokenTtlSeconds * 1000).toISOString(),
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    if (!token.name) throw new Error('Upstream returned no token');
+    return { token: token.name, expiresAt: expireTime };
+  }
+
+  attachLive(client: WebSocket, path: string) {
+    const upstream = new WebSocket(`${GEMINI_WS_HOST}${path}?key=${encodeURIComponent(this.config.geminiApiKey)}`);
+    const pending: { data: RawData; isBinary: boolean }[] = [];
+    let pendingBytes = 0;
+
+    client.on('message', (data, isBinary) => {
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(data, { binary: isBinary });
+        return;
+      }
+      pendingBytes += rawLength(data);
+      if (pendingBytes > MAX_PENDING_BYTES) {
+        // 1009: more than we are willing to hold while the upstream connects.
+        client.close(1009, 'Too much data before the session opened');
+        return;
+      }
+      pending.push({ data, isBinary });
+    });
+    upstream.on('open', () => {
+      pending.splice(0).forEach(({ data, isBinary }) => upstream.send(data, { binary: isBinary }));
+      pendingBytes = 0;
+    });
+    upstream.on('message', (data, isBinary) => {
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+
+    upstream.on('close', (code, reason) => {
+      if (client.readyState === WebSocket.OPEN) client.close(forwardableCode(code), reason);
+    });
+    upstream.on('error', (err) => {
+      console.error('Upstream live socket error:', err.message);
+      client.close(1011, 'Upstream unavailable');
+    });
+    // ws emits 'error' for protocol violations and closes the socket itself; unheard, it would end the process.
+    client.on('error', (err) => {
+      console.warn('Live client socket error:', err.message);
+      upstream.close();
+    });
+    client.on('close', () => upstream.close());
+  }
+}
+
+/** The parts of a Live API client message the stub acts on. */
+interface StubClientMessage {
+  setup?: { sessionResumption?: unknown };
+  clientContent?: { turnComplete?: boolean };
+  realtimeInput?: {
+    mediaChunks?: { data: string }[];
+    audio?: { data: string };
+    audioStreamEnd?: boolean;
+    activityEnd?: unknown;
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAudioChunk = (value: unknown): value is { data: string } => isRecord(value) && typeof value.data === 'string';
+
+/** A client frame, or null if it isn't JSON or its fields have the wrong shape. */
+export const parseStubClientMessage = (raw: string): StubClientMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) return null;
+
+  const { setup, clientContent, realtimeInput } = message;
+  if (setup !== undefined && !isRecord(setup)) return null;
+  if (clientContent !== undefined && !isRecord(clientContent)) return null;
+  if (realtimeInput !== undefined) {
+    if (!isRecord(realtimeInput)) return null;
+    const { mediaChunks, audio } = realtimeInput;
+    if (mediaChunks !== undefined && !(Array.isArray(mediaChunks) && mediaChunks.every(isAudioChunk))) return null;
+    if (audio !== undefined && !isAudioChunk(audio)) return null;
+  }
+  return message as StubClientMessage;
+};
+
+/**
+ * Local stand-in for Gemini: hands out fake tokens and answers the Live
+ * protocol with the mock server's canned turns. Needs no key or network.
+ */
+class StubUpstream implements LiveUpstream {
+  private fixtures = loadMockFixtures(process.env.MOCK_LIVE_FIXTURES);
+
+  async mintToken(): Promise<MintedToken> {
+    return {
+      token: `auth_tokens/stub-${randomUUID()}`,
+      expiresAt: new Date(Date.now() + 30 * 60_000).toISOString(),
+    };
+  }
+
+  attachLive(client: WebSocket) {
+    const send = (message: object) => {
+      if (client.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+    };
+
+    const player = createCannedTurnPlayer(this.fixtures, {
+      inputTranscription: (text) => send({ serverContent: { inputTranscription: { text } } }),
+      outputTranscription: (text) => send({ serverContent: { outputTranscription: { text } } }),
+      toolCall: (id, { name, args }) => send({ toolCall: { functionCalls: [{ id, name, args }] } }),
+      audio: (data) =>
+        send({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data } }] } } }),
+      turnComplete: () => send({ serverContent: { turnComplete: true } }),
+      interrupted: () => send({ serverContent: { interrupted: true } }),
+    });
+
+    client.on('message', (raw) => {
+      const message = parseStubClientMessage(raw.toString());
+      if (!message) {
+        // 1007: the frame's content is not what the protocol allows.
+        client.close(1007, 'Malformed message');
+        return;
+      }
+      if (message.setup) {
+        send({ setupComplete: {} });
+        // Nothing is actually remembered; the handle only lets clients exercise resumption.
+        if (message.setup.sessionResumption) {
+          send({ sessionResumptionUpdate: { newHandle: `stub-${randomUUID()}`, resumable: true } });
+        }
+      }
+      if (message.clientContent?.turnComplete) player.text();
+      const input = message.realtimeInput;
+      if (input) {
+        input.mediaChunks?.forEach((chunk) => player.audio(chunk.data));
+        if (input.audio) player.audio(input.audio.data);
+        if (input.audioStreamEnd || input.activityEnd) player.streamEnd();
+      }
+    });
+    client.on('error', (err) => console.warn('Live client socket error:', err.message));
+    client.on('close', player.stop);
+  }
+}
+
+export const createUpstream = (config: ServerConfig): LiveUpstream =>
+  config.upstream === 'stub' ? new StubUpstream() : new GeminiUpstream(config);
@@ -0,0 +1,38 @@
+import { connect } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+
+/** Port a server listening on port 0 was given. */
+export const portOf = (server: Server) => (server.address() as AddressInfo).port;
+
+/**
+ * Completes a WebSocket handshake on `path` by hand and sends one frame with
+ * the reserved RSV2 bit set, which ws rejects with an 'error' event on the
+ * server side. Resolves once the server hangs up.
+ */
+export const sendInvalidFrame = (port: number, path = '/') =>
+  new Promise<void>((resolve, reject) => {
+    let upgraded = false;
+    const socket = connect(port, '127.0.0.1', () => {
+      socket.write(
+        [
+          `GET ${path} HTTP/1.1`,
+          'Host: localhost',
+          'Upgrade: websocket',
+          'Connection: Upgrade',
+          'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+          'Sec-WebSocket-Version: 13',
+          '',
+          '',
+        ].join('\r\n'),
+      );
+    });
+    socket.on('data', (data) => {
+      if (upgraded || !data.toString().startsWith('HTTP/1.1 101')) return;
+      upgraded = true;
+      // FIN + RSV2 + text opcode, masked, empty payload.
+      socket.write(Buffer.from([0xa1, 0x80, 0, 0, 0, 0]));
+    });
+    socket.on('error', () => {});
+    socket.on('close', () => (upgraded ? resolve() : reject(new Error(`Upgrade to ${path} was refused`))));
+  });
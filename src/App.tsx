@@ -3,8 +3,14 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { GlobalAIOverlay } from "@/components/ai-overlay";
+import { WakeWordIndicator } from "@/components/wake-word-indicator";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Settings from "./pages/Settings";
+import History from "./pages/History";
+import Diagnostics from "./pages/Diagnostics";
+import Transcribe from "./pages/Transcribe";
 
 const queryClient = new QueryClient();
 
@@ -16,9 +22,15 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/diagnostics" element={<Diagnostics />} />
+          <Route path="/transcribe" element={<Transcribe />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
+        <GlobalAIOverlay />
+        <WakeWordIndicator />
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
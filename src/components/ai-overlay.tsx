@@ -1,93 +1,314 @@
 import { useState, useRef, useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Mic, MicOff, X, Brain, RotateCcw, Sparkles } from "lucide-react";
+import { Mic, MicOff, X, Brain, RotateCcw, Sparkles, KeyRound, Loader2, Keyboard, Volume2, VolumeX } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
-import { GeminiLiveAudio } from "@/lib/gemini-live-audio";
+import { Input } from "@/components/ui/input";
+import { TranscriptionDisplay, type TranscriptionEntry } from "@/components/transcription-display";
+import { OnScreenKeyboard } from "@/components/on-screen-keyboard";
+import { useAssistantSettings } from "@/hooks/use-assistant-settings";
+import { useAssistantOverlay } from "@/hooks/use-assistant-overlay";
+import { useTalkKey } from "@/hooks/use-talk-key";
+import { isAssistantConfigured, talkKeyLabel, type TalkMode } from "@/lib/assistant-settings";
+import {
+  createVoiceAssistant,
+  getConfiguredProviderKind,
+  type VoiceAssistantProvider,
+} from "@/lib/voice-assistant";
+import type { AssistantErrorCode, AssistantState } from "@/lib/assistant-state";
+import type { CaptionEvent, CompletedTurn } from "@/lib/turn-transcript";
+import { describeTurnAction } from "@/lib/launcher-tools";
+import { appendConversationTurn, createConversationId, type StoredConversation } from "@/lib/conversation-history";
+import { getActiveProfile } from "@/lib/profiles";
+import { detectLanguage } from "@/lib/language-tools";
+import { describeScreenContext, getScreenContext, subscribeScreenContext } from "@/lib/screen-context";
+import { runVoiceCommand, type VoiceCommand } from "@/lib/voice-commands";
+
+const errorMessages: Record<AssistantErrorCode, string> = {
+  "not-configured": "Gemini Live is not configured. Add credentials in Settings.",
+  "connection-failed": "Failed to connect to the assistant",
+  "connection-lost": "Lost connection to the assistant",
+  "session-rejected": "The assistant refused the session. Check the model and credentials in Settings.",
+  "microphone-denied": "Microphone access was denied",
+  "microphone-unavailable": "No microphone is available",
+};
+
+const describeState = (state: AssistantState): string => {
+  switch (state.type) {
+    case "idle":
+      return "Ready to speak";
+    case "connecting":
+      if (!state.reconnect) return "Connecting...";
+      if (state.reconnect.reason === "go-away") return "Resuming conversation...";
+      return `Connection lost, retrying in ${Math.ceil(state.reconnect.delayMs / 1000)}s (attempt ${state.reconnect.attempt})`;
+    case "connected":
+      return state.resumed ? "Reconnected, conversation resumed" : "Ready to speak";
+    case "listening":
+      return "Listening...";
+    case "model-speaking":
+      return "Speaking...";
+    case "interrupted":
+      return "Interrupted";
+    case "error":
+      return errorMessages[state.code];
+  }
+};
+
+const toEntry = (turn: CompletedTurn, index: number): TranscriptionEntry => ({
+  id: `${turn.startedAt.getTime()}-${index}`,
+  timestamp: turn.startedAt,
+  userInput: turn.userText,
+  aiResponse: turn.modelText,
+  language: turn.language,
+  actions: turn.actions.map(describeTurnAction),
+});
+
+const talkHint = (mode: TalkMode, key: string) => {
+  switch (mode) {
+    case "toggle":
+      return `Press ${talkKeyLabel(key)} or OK to start and stop`;
+    case "hold":
+      return `Hold ${talkKeyLabel(key)} to talk, release to send`;
+    case "openMic":
+      return "Open mic: just start speaking";
+  }
+};
 
 interface AIOverlayProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Start listening as soon as the session is up, without pressing the mic button. */
+  listenOnOpen?: boolean;
+  /** A saved conversation to continue; its turns are shown and re-sent as context. */
+  resume?: StoredConversation | null;
 }
 
 export const AIOverlay = ({ 
   isOpen, 
-  onClose
+  onClose,
+  listenOnOpen = false,
+  resume = null
 }: AIOverlayProps) => {
   const [isRecording, setIsRecording] = useState(false);
-  const [status, setStatus] = useState("Ready to speak");
-  const [error, setError] = useState("");
-  const geminiLiveRef = useRef<GeminiLiveAudio | null>(null);
+  const [assistantState, setAssistantState] = useState<AssistantState>({ type: "idle" });
+  const [captions, setCaptions] = useState({ user: "", model: "" });
+  const [conversation, setConversation] = useState<TranscriptionEntry[]>([]);
+  const [inputMode, setInputMode] = useState<"voice" | "text">("voice");
+  const [draftText, setDraftText] = useState("");
+  const [speakReplies, setSpeakReplies] = useState(true);
+  // While the text field has focus a physical keyboard is typing, so the D-pad keyboard stands down.
+  const [inputFocused, setInputFocused] = useState(false);
+  const assistantRef = useRef<VoiceAssistantProvider | null>(null);
+  // Where finished turns are saved; a fresh conversation starts on open and on reset.
+  const historyRef = useRef({ id: createConversationId(), profileId: getActiveProfile().id });
+  // Turns are saved one after another, so a slow language guess can't reorder them.
+  const savingRef = useRef<Promise<void>>(Promise.resolve());
+  // Whether the talk key or mic button is held down, in hold-to-talk mode.
+  const holdingRef = useRef(false);
   const overlayRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const [settings] = useAssistantSettings();
+  const isConfigured = getConfiguredProviderKind() === "mock" || isAssistantConfigured(settings);
+  const isHoldMode = settings.talkMode === "hold";
+  const isTextMode = inputMode === "text";
+
+  const handleStateChange = (state: AssistantState) => {
+    setAssistantState(state);
+    setIsRecording(assistantRef.current?.getIsRecording() ?? false);
+    // Without a microphone, typing is the only way to talk to the assistant.
+    if (state.type === "error" && (state.code === "microphone-denied" || state.code === "microphone-unavailable")) {
+      setInputMode("text");
+    }
+  };
+
+  const handleCaption = ({ speaker, text }: CaptionEvent) => {
+    setCaptions((current) => ({ ...current, [speaker]: text }));
+  };
+
+  const handleTurnComplete = (turn: CompletedTurn) => {
+    setCaptions({ user: "", model: "" });
+    setConversation((current) => [...current, toEntry(turn, current.length)]);
+
+    const { id, profileId } = historyRef.current;
+    savingRef.current = savingRef.current
+      .then(async () => {
+        const language = (await detectLanguage(turn.userText)) ?? undefined;
+        if (language) {
+          setConversation((current) => current.map((entry) => (entry.timestamp === turn.startedAt ? { ...entry, language } : entry)));
+        }
+        await appendConversationTurn(id, profileId, { ...turn, language });
+      })
+      .catch((e) => console.error("Failed to save conversation turn:", e));
+  };
+
+  const clearTranscript = () => {
+    setCaptions({ user: "", model: "" });
+    setConversation([]);
+  };
 
   const startRecording = async () => {
-    if (!geminiLiveRef.current || isRecording) return;
+    const assistant = assistantRef.current;
+    if (!assistant || assistant.getIsRecording()) return;
     
-    setError("");
-    await geminiLiveRef.current.startRecording();
-    setIsRecording(true);
+    await assistant.startRecording();
+    // A quick press can be released before the mic has even opened.
+    if (isHoldMode && !holdingRef.current) assistant.stopRecording();
   };
 
   const stopRecording = () => {
-    if (!geminiLiveRef.current || !isRecording) return;
-    
-    geminiLiveRef.current.stopRecording();
+    assistantRef.current?.stopRecording();
+  };
+
+  const pressTalk = () => {
+    if (isHoldMode) {
+      holdingRef.current = true;
+      startRecording();
+    } else if (assistantRef.current?.getIsRecording()) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  };
+
+  const releaseTalk = () => {
+    if (!isHoldMode) return;
+    holdingRef.current = false;
+    stopRecording();
+  };
+
+  const switchInputMode = () => {
+    if (isTextMode) {
+      setInputMode("voice");
+      return;
+    }
+    stopRecording();
+    setInputMode("text");
+    assistantRef.current?.connect();
+  };
+
+  const toggleSpeakReplies = () => {
+    const next = !speakReplies;
+    setSpeakReplies(next);
+    assistantRef.current?.setPlaybackMuted(!next);
+  };
+
+  const sendTyped = () => {
+    const text = draftText.trim();
+    if (!text || !assistantRef.current) return;
+    setDraftText("");
+    assistantRef.current.sendText(text);
+  };
+
+  const endSession = () => {
+    if (!assistantRef.current) return;
+    assistantRef.current.destroy();
+    assistantRef.current = null;
     setIsRecording(false);
+    setAssistantState({ type: "idle" });
+    setInputMode("voice");
+    setDraftText("");
+    clearTranscript();
   };
 
   const handleClose = () => {
     // Ensure full disconnection when closing overlay
-    if (geminiLiveRef.current) {
-      geminiLiveRef.current.destroy();
-      geminiLiveRef.current = null;
-      setIsRecording(false);
-      setStatus("Ready to speak");
-      setError("");
-    }
+    endSession();
     onClose();
   };
 
-  const resetSession = () => {
-    if (!geminiLiveRef.current) return;
+  // Local commands act on the screen itself, so the overlay gets out of the way first.
+  const handleLocalCommand = (command: VoiceCommand) => {
+    handleClose();
+    runVoiceCommand(command, navigate);
+  };
+
+  const openSettings = () => {
+    handleClose();
+    navigate("/settings");
+  };
+
+  const resetSession = async () => {
+    if (!assistantRef.current) return;
     
-    geminiLiveRef.current.reset();
-    setIsRecording(false);
-    setError("");
+    clearTranscript();
+    historyRef.current = { id: createConversationId(), profileId: getActiveProfile().id };
+    await assistantRef.current.reset();
   };
 
-  // Initialize Gemini Live Audio when overlay opens
-  useEffect(() => {
-    if (isOpen && !geminiLiveRef.current) {
-      geminiLiveRef.current = new GeminiLiveAudio();
-      geminiLiveRef.current.onStatusChange = setStatus;
-      geminiLiveRef.current.onError = setError;
+  const openSession = () => {
+    if (assistantRef.current) return;
+    assistantRef.current = createVoiceAssistant();
+    assistantRef.current.onStateChange = handleStateChange;
+    assistantRef.current.onCaption = handleCaption;
+    assistantRef.current.onTurnComplete = handleTurnComplete;
+    assistantRef.current.onLocalCommand = handleLocalCommand;
+    assistantRef.current.setPlaybackMuted(!speakReplies);
+
+    if (resume) {
+      historyRef.current = { id: resume.id, profileId: resume.profileId };
+      setConversation(resume.turns.map(toEntry));
+      assistantRef.current.loadHistory(resume.turns);
+    } else {
+      historyRef.current = { id: createConversationId(), profileId: getActiveProfile().id };
+      assistantRef.current.connect();
     }
-    
+
+    if (listenOnOpen || settings.talkMode === "openMic") {
+      holdingRef.current = listenOnOpen;
+      startRecording();
+    }
+  };
+
+  // The session follows the open state only; it reads the latest props and talk settings as it opens.
+  const sessionRef = useRef({ openSession, endSession });
+  sessionRef.current = { openSession, endSession };
+
+  // Initialize the voice assistant when overlay opens
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (isOpen && isConfigured) session.openSession();
     return () => {
-      if (!isOpen && geminiLiveRef.current) {
-        geminiLiveRef.current.destroy();
-        geminiLiveRef.current = null;
-        setIsRecording(false);
-        setStatus("Ready to speak");
-        setError("");
-      }
+      if (!isOpen) session.endSession();
     };
-  }, [isOpen]);
+  }, [isOpen, isConfigured]);
+
+  // Keep the session up to date with what is on screen, as focus moves
+  useEffect(() => {
+    if (!isOpen) return;
+    const share = () => assistantRef.current?.setScreenContext(describeScreenContext(pathname, getScreenContext()));
+    share();
+    return subscribeScreenContext(share);
+  }, [isOpen, pathname]);
 
   useKeyboardNavigation({
     onEscape: handleClose,
-    onEnter: () => {
-      if (isRecording) {
-        stopRecording();
+    // In text mode OK belongs to the on-screen keyboard.
+    onEnter: isTextMode ? undefined : () => {
+      if (!isConfigured) {
+        openSettings();
       } else {
-        startRecording();
+        pressTalk();
       }
     },
     disabled: !isOpen,
   });
 
+  // In hold mode OK works as a talk key too, so it needs release events.
+  useTalkKey({
+    keys: isHoldMode ? [settings.talkKey, "Enter"] : [settings.talkKey],
+    onPress: pressTalk,
+    onRelease: releaseTalk,
+    disabled: !isOpen || !isConfigured || isTextMode,
+  });
+
   if (!isOpen) return null;
 
+  const isError = assistantState.type === "error";
+  const isConnecting = assistantState.type === "connecting";
+  const isModelSpeaking = assistantState.type === "model-speaking";
+
   return (
     <div 
       className="fixed inset-0 z-50 flex items-center justify-center"
@@ -99,111 +320,251 @@ export const AIOverlay = ({
         onClick={handleClose}
       />
       
-      {/* Professional AI Panel */}
-      <div 
-        ref={overlayRef}
-        className={cn(
-          "relative glass-panel rounded-3xl p-10 animate-scale-in",
-          "w-96 h-96 flex flex-col items-center justify-center",
-          "border border-white/10 shadow-[0_0_60px_hsl(var(--ai-pulse)/0.3)]",
-          "hover:shadow-[0_0_80px_hsl(var(--ai-pulse)/0.5)]",
-          "transition-all duration-700",
-          "before:absolute before:inset-0 before:rounded-3xl before:bg-gradient-to-br before:from-white/5 before:to-transparent before:pointer-events-none"
-        )}
-        tabIndex={-1}
-      >
-        {/* Ambient Glow Effect */}
-        <div className="absolute inset-0 rounded-3xl bg-gradient-radial from-accent/10 to-transparent opacity-60" />
-        
-        {/* Header Section */}
-        <div className="absolute top-6 left-0 right-0 flex items-center justify-between px-6">
-          {/* Reset Button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={resetSession}
-            disabled={isRecording}
-            className="w-10 h-10 text-white/60 hover:text-white hover:bg-white/5 nav-focus rounded-xl transition-all duration-300"
-          >
-            <RotateCcw className="w-4 h-4" />
-          </Button>
-
-          {/* AI Branding */}
-          <div className="flex items-center space-x-3">
-            <div className="relative">
-              <Sparkles className="w-5 h-5 text-accent animate-pulse" />
-              <div className="absolute inset-0 bg-accent/20 rounded-full blur-sm" />
-            </div>
-            <span className="text-sm font-semibold text-white/90 tracking-wide">Gemini Live</span>
-          </div>
+      <div className="relative flex flex-col items-center gap-4">
+        {/* Professional AI Panel */}
+        <div 
+          ref={overlayRef}
+          className={cn(
+            "relative glass-panel rounded-3xl p-10 animate-scale-in",
+            "w-96 h-96 flex flex-col items-center justify-center",
+            "border border-white/10 shadow-[0_0_60px_hsl(var(--ai-pulse)/0.3)]",
+            "hover:shadow-[0_0_80px_hsl(var(--ai-pulse)/0.5)]",
+            "transition-all duration-700",
+            "before:absolute before:inset-0 before:rounded-3xl before:bg-gradient-to-br before:from-white/5 before:to-transparent before:pointer-events-none"
+          )}
+          tabIndex={-1}
+        >
+          {/* Ambient Glow Effect */}
+          <div className="absolute inset-0 rounded-3xl bg-gradient-radial from-accent/10 to-transparent opacity-60" />
+          
+          {/* Header Section */}
+          <div className="absolute top-6 left-0 right-0 flex items-center justify-between px-6">
+            {/* Reset Button */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={resetSession}
+              disabled={isRecording || !isConfigured}
+              className="w-10 h-10 text-white/60 hover:text-white hover:bg-white/5 nav-focus rounded-xl transition-all duration-300"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
 
-          {/* Close Button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handleClose}
-            className="w-10 h-10 text-white/60 hover:text-white hover:bg-white/5 nav-focus rounded-xl transition-all duration-300"
-          >
-            <X className="w-4 h-4" />
-          </Button>
-        </div>
+            {/* AI Branding */}
+            <div className="flex items-center space-x-3">
+              <div className="relative">
+                <Sparkles className="w-5 h-5 text-accent animate-pulse" />
+                <div className="absolute inset-0 bg-accent/20 rounded-full blur-sm" />
+              </div>
+              <span className="text-sm font-semibold text-white/90 tracking-wide">Gemini Live</span>
+            </div>
 
-        {/* Central Recording Area */}
-        <div className="flex flex-col items-center space-y-8 z-10">
-          {/* Enhanced Record Button */}
-          <div className="relative">
-            {/* Animated Ring for Recording State */}
-            {isRecording && (
-              <>
-                <div className="absolute inset-0 rounded-full border-2 border-red-400/30 animate-ping scale-125" />
-                <div className="absolute inset-0 rounded-full bg-red-500/20 animate-glow-pulse scale-110" />
-              </>
-            )}
-            
-            {/* Main Button */}
+            {/* Close Button */}
             <Button
-              onClick={isRecording ? stopRecording : startRecording}
-              size="lg"
-              className={cn(
-                "w-24 h-24 rounded-full transition-all duration-500 nav-focus",
-                "relative z-10 border-2",
-                "shadow-[0_8px_32px_hsl(var(--background)/0.3)]",
-                isRecording
-                  ? "bg-gradient-to-br from-red-500 to-red-600 border-red-400/50 text-white shadow-[0_0_40px_rgba(239,68,68,0.6)] hover:shadow-[0_0_50px_rgba(239,68,68,0.8)]"
-                  : "bg-gradient-to-br from-accent to-accent/80 border-accent/30 text-black shadow-[0_0_30px_hsl(var(--accent)/0.4)] hover:shadow-[0_0_40px_hsl(var(--accent)/0.6)] hover:scale-105"
-              )}
+              variant="ghost"
+              size="icon"
+              onClick={handleClose}
+              className="w-10 h-10 text-white/60 hover:text-white hover:bg-white/5 nav-focus rounded-xl transition-all duration-300"
             >
-              {isRecording ? (
-                <div className="w-7 h-7 bg-current rounded-md" />
-              ) : (
-                <Mic className="w-9 h-9" />
-              )}
+              <X className="w-4 h-4" />
             </Button>
           </div>
 
-          {/* Professional Status Display */}
-          <div className="text-center space-y-2">
-            <p className={cn(
-              "text-sm font-medium tracking-wide transition-colors duration-300",
-              error ? "text-red-400" : "text-white/90"
-            )}>
-              {error || status}
-            </p>
-            {isRecording && (
-              <div className="flex items-center justify-center space-x-1">
-                <div className="w-1 h-1 bg-red-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                <div className="w-1 h-1 bg-red-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                <div className="w-1 h-1 bg-red-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+          {/* Not Configured State */}
+          {!isConfigured && (
+            <div className="flex flex-col items-center space-y-6 z-10 text-center">
+              <div className="w-24 h-24 rounded-full flex items-center justify-center border-2 border-white/10 bg-white/5">
+                <KeyRound className="w-9 h-9 text-white/60" />
               </div>
-            )}
+              <div className="space-y-2">
+                <p className="text-sm font-medium tracking-wide text-white/90">Assistant not configured</p>
+                <p className="text-xs text-white/60 max-w-64">
+                  Add a Gemini API key, token endpoint or assistant server in Settings to start talking.
+                </p>
+              </div>
+              <Button
+                onClick={openSettings}
+                className="nav-focus rounded-xl bg-accent/20 border border-accent/30 text-white hover:bg-accent/30"
+              >
+                Open Settings
+              </Button>
+            </div>
+          )}
+
+          {/* Central Recording Area */}
+          {isConfigured && (
+            <div className="flex flex-col items-center space-y-8 z-10">
+              {/* Enhanced Record Button */}
+              <div className="relative">
+                {/* Animated Ring for Recording State */}
+                {isRecording && (
+                  <>
+                    <div className="absolute inset-0 rounded-full border-2 border-red-400/30 animate-ping scale-125" />
+                    <div className="absolute inset-0 rounded-full bg-red-500/20 animate-glow-pulse scale-110" />
+                  </>
+                )}
+                
+                {/* Main Button */}
+                <Button
+                  onClick={isHoldMode ? undefined : pressTalk}
+                  onPointerDown={isHoldMode ? pressTalk : undefined}
+                  onPointerUp={isHoldMode ? releaseTalk : undefined}
+                  onPointerLeave={isHoldMode && isRecording ? releaseTalk : undefined}
+                  disabled={isConnecting && !isRecording}
+                  size="lg"
+                  className={cn(
+                    "w-24 h-24 rounded-full transition-all duration-500 nav-focus",
+                    "relative z-10 border-2",
+                    "shadow-[0_8px_32px_hsl(var(--background)/0.3)]",
+                    isRecording
+                      ? "bg-gradient-to-br from-red-500 to-red-600 border-red-400/50 text-white shadow-[0_0_40px_rgba(239,68,68,0.6)] hover:shadow-[0_0_50px_rgba(239,68,68,0.8)]"
+                      : "bg-gradient-to-br from-accent to-accent/80 border-accent/30 text-black shadow-[0_0_30px_hsl(var(--accent)/0.4)] hover:shadow-[0_0_40px_hsl(var(--accent)/0.6)] hover:scale-105"
+                  )}
+                >
+                  {isRecording ? (
+                    <div className="w-7 h-7 bg-current rounded-md" />
+                  ) : isConnecting ? (
+                    <Loader2 className="w-9 h-9 animate-spin" />
+                  ) : (
+                    <Mic className="w-9 h-9" />
+                  )}
+                </Button>
+              </div>
+
+              {/* Professional Status Display */}
+              <div className="text-center space-y-2">
+                <p className={cn(
+                  "text-sm font-medium tracking-wide transition-colors duration-300",
+                  isError ? "text-red-400" : "text-white/90"
+                )}>
+                  {describeState(assistantState)}
+                </p>
+                {!isError && !isRecording && !isTextMode && (
+                  <p className="text-xs text-white/50">{talkHint(settings.talkMode, settings.talkKey)}</p>
+                )}
+                {!isRecording && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={switchInputMode}
+                    className="h-7 text-xs text-white/60 hover:text-white hover:bg-white/10"
+                  >
+                    {isTextMode ? <Mic className="w-3.5 h-3.5 mr-1.5" /> : <Keyboard className="w-3.5 h-3.5 mr-1.5" />}
+                    {isTextMode ? "Speak instead" : "Type instead"}
+                  </Button>
+                )}
+                {(isRecording || isModelSpeaking) && (
+                  <div className="flex items-center justify-center space-x-1">
+                    {[0, 150, 300].map((delay) => (
+                      <div
+                        key={delay}
+                        className={cn("w-1 h-1 rounded-full animate-bounce", isModelSpeaking ? "bg-accent" : "bg-red-400")}
+                        style={{ animationDelay: `${delay}ms` }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Subtle Bottom Indicator */}
+          <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2">
+            <div className="w-12 h-1 bg-gradient-to-r from-transparent via-white/20 to-transparent rounded-full" />
           </div>
         </div>
 
-        {/* Subtle Bottom Indicator */}
-        <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2">
-          <div className="w-12 h-1 bg-gradient-to-r from-transparent via-white/20 to-transparent rounded-full" />
-        </div>
+        {/* Typed Chat */}
+        {isConfigured && isTextMode && (
+          <div className="glass-panel rounded-2xl p-4 w-[32rem] space-y-3 border border-white/10 animate-in fade-in-0">
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                sendTyped();
+              }}
+            >
+              <Input
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                onFocus={() => setInputFocused(true)}
+                onBlur={() => setInputFocused(false)}
+                placeholder="Type a message..."
+                aria-label="Message to the assistant"
+                className="bg-white/5 border-white/10 text-white placeholder:text-white/40"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={toggleSpeakReplies}
+                title={speakReplies ? "Replies are spoken aloud" : "Replies are shown as text only"}
+                className="shrink-0 text-white/70 hover:text-white hover:bg-white/10"
+              >
+                {speakReplies ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+              </Button>
+            </form>
+            <OnScreenKeyboard
+              disabled={inputFocused}
+              onInput={(char) => setDraftText((current) => current + char)}
+              onBackspace={() => setDraftText((current) => current.slice(0, -1))}
+              onSubmit={sendTyped}
+            />
+          </div>
+        )}
+
+        {/* Live Captions */}
+        {(captions.user || captions.model) && (
+          <div
+            aria-live="polite"
+            className="glass-panel rounded-2xl px-6 py-4 w-[32rem] space-y-2 border border-white/10 animate-in fade-in-0"
+          >
+            {captions.user && (
+              <p className="text-sm text-white/60">
+                <span className="font-medium text-white/80">You: </span>
+                {captions.user}
+              </p>
+            )}
+            {captions.model && (
+              <p className="text-sm text-white/90">
+                <span className="font-medium text-accent">Assistant: </span>
+                {captions.model}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Finished Turns */}
+        {conversation.length > 0 && (
+          <div className="w-[32rem]">
+            <TranscriptionDisplay transcriptions={conversation} />
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * The overlay as mounted once for the whole app. The talk key opens it
+ * already listening from any screen; once open, the overlay handles the key.
+ */
+export const GlobalAIOverlay = () => {
+  const overlay = useAssistantOverlay();
+  const [settings] = useAssistantSettings();
+
+  useTalkKey({
+    keys: [settings.talkKey],
+    onPress: () => overlay.open(true),
+    disabled: overlay.isOpen,
+  });
+
+  return (
+    <AIOverlay
+      isOpen={overlay.isOpen}
+      listenOnOpen={overlay.listenOnOpen}
+      resume={overlay.resume}
+      onClose={overlay.close}
+    />
+  );
+};
@@ -1,51 +1,24 @@
 import { useState, useRef, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
+import { useLauncherCommand } from "@/hooks/use-launcher-command";
+import { matchesName } from "@/lib/launcher-commands";
+import { launcherApps, type LauncherApp } from "@/lib/launcher-data";
+import { updateScreenContext } from "@/lib/screen-context";
+import { toast } from "sonner";
 
-const apps = [
-  {
-    id: 1,
-    name: "Netflix",
-    icon: "./images/apps/netflix.png",
-    url: "https://netflix.com",
-    gradient: "from-red-600 to-red-500"
-  },
-  {
-    id: 2,
-    name: "Plex",
-    icon: "./images/apps/plex.png",
-    url: "https://plex.tv",
-    gradient: "from-yellow-500 to-orange-500"
-  },
-  {
-    id: 3,
-    name: "YouTube",
-    icon: "./images/apps/youtube.png",
-    url: "https://youtube.com",
-    gradient: "from-red-500 to-red-600"
-  },
-  {
-    id: 4,
-    name: "Disney+",
-    icon: "./images/apps/disney+.png",
-    url: "https://disneyplus.com",
-    gradient: "from-blue-600 to-blue-700"
-  },
-  {
-    id: 5,
-    name: "Tubi",
-    icon: "./images/apps/tubi.png",
-    url: "https://tubi.tv",
-    gradient: "from-purple-600 to-purple-700"
-  },
-  {
-    id: 6,
-    name: "HBO Max",
-    icon: "./images/apps/hbo max.png",
-    url: "https://max.com",
-    gradient: "from-purple-800 to-purple-900"
-  }
-];
+/**
+ * Opens an app in a new tab. Browsers block popups that don't follow a click
+ * or key press, as assistant and voice requests don't; the app is then offered
+ * in a toast, so the launcher stays where it is until the viewer confirms.
+ */
+const launchApp = (app: LauncherApp) => {
+  if (window.open(app.url, "_blank")) return;
+  toast(`Open ${app.name}?`, {
+    description: "The browser needs you to confirm before it opens a new tab.",
+    action: { label: "Open", onClick: () => window.open(app.url, "_blank") },
+  });
+};
 
 interface AppGridProps {
   isFocused?: boolean;
@@ -89,6 +62,10 @@ export const AppGrid = ({ isFocused = false, onFocusChange }: AppGridProps) => {
     onFocusChange?.(isGridFocused);
   }, [isGridFocused, onFocusChange]);
 
+  useEffect(() => {
+    if (isGridFocused) updateScreenContext({ focusedApp: launcherApps[focusedIndex]?.name ?? null });
+  }, [isGridFocused, focusedIndex]);
+
   useKeyboardNavigation({
     onArrowLeft: () => {
       if (isGridFocused && focusedIndex > 0) {
@@ -99,8 +76,8 @@ export const AppGrid = ({ isFocused = false, onFocusChange }: AppGridProps) => {
       }
     },
     onArrowRight: () => {
-      if (isGridFocused && focusedIndex < apps.length - 1) {
-        const newIndex = Math.min(apps.length - 1, focusedIndex + 1);
+      if (isGridFocused && focusedIndex < launcherApps.length - 1) {
+        const newIndex = Math.min(launcherApps.length - 1, focusedIndex + 1);
         setFocusedIndex(newIndex);
         appRefs.current[newIndex]?.focus();
         scrollToApp(newIndex);
@@ -108,19 +85,30 @@ export const AppGrid = ({ isFocused = false, onFocusChange }: AppGridProps) => {
     },
     onEnter: () => {
       if (isGridFocused && focusedIndex >= 0) {
-        const app = apps[focusedIndex];
+        const app = launcherApps[focusedIndex];
         if (app?.url) {
-          window.open(app.url, '_blank');
+          launchApp(app);
         }
       }
     },
     disabled: false,
   });
 
+  // Assistant "open <app>" requests
+  useLauncherCommand("openApp", ({ appName }) => {
+    const index = launcherApps.findIndex(app => matchesName(app.name, appName));
+    if (index < 0) return false;
+
+    setFocusedIndex(index);
+    scrollToApp(index);
+    launchApp(launcherApps[index]);
+    return true;
+  });
+
   const handleAppClick = (appId: number, index: number) => {
-    const app = apps.find(a => a.id === appId);
+    const app = launcherApps.find(a => a.id === appId);
     if (app?.url) {
-      window.open(app.url, '_blank');
+      launchApp(app);
     }
     setFocusedIndex(index);
     setIsGridFocused(true);
@@ -151,7 +139,7 @@ export const AppGrid = ({ isFocused = false, onFocusChange }: AppGridProps) => {
           className="flex space-x-8 p-2 pb-4 overflow-x-auto scrollbar-hide"
           style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
         >
-          {apps.map((app, index) => {
+          {launcherApps.map((app, index) => {
             const isFocused = focusedIndex === index;
             
             return (
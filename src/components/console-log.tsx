@@ -96,7 +96,7 @@ export const ConsoleLog = ({ logs }: ConsoleLogProps) => {
                       </span>
                     </div>
                     <p className="text-sm text-foreground mt-1">{log.message}</p>
-                    {log.duration && (
+                    {log.duration !== undefined && (
                       <p className="text-xs text-ai-glow font-mono mt-1">
                         Duration: {log.duration}ms
                       </p>
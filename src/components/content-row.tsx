@@ -1,17 +1,13 @@
 import { useState, useRef, useEffect } from "react";
-import { Play, Plus } from "lucide-react";
+import { Check, Play, Plus } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
-
-interface ContentItem {
-  id: number;
-  title: string;
-  image: string;
-  year?: string;
-  genre?: string;
-  rating?: string;
-}
+import { useLauncherCommand } from "@/hooks/use-launcher-command";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { matchesName } from "@/lib/launcher-commands";
+import { recommendedMovies, type ContentItem } from "@/lib/launcher-data";
+import { updateScreenContext } from "@/lib/screen-context";
 
 interface ContentRowProps {
   title: string;
@@ -20,62 +16,12 @@ interface ContentRowProps {
   onFocusChange?: (focused: boolean) => void;
 }
 
-const defaultMovies: ContentItem[] = [
-  {
-    id: 1,
-    title: "Friends",
-    image: "https://images.unsplash.com/photo-1489599083698-2aa49c3b3100?w=300&h=400&fit=crop",
-    year: "1994",
-    genre: "Comedy",
-    rating: "8.9"
-  },
-  {
-    id: 2,
-    title: "Iron Man",
-    image: "https://images.unsplash.com/photo-1635805737707-575885ab0820?w=300&h=400&fit=crop",
-    year: "2008",
-    genre: "Action",
-    rating: "7.9"
-  },
-  {
-    id: 3,
-    title: "Spider-Man",
-    image: "https://images.unsplash.com/photo-1626278664285-f796b9ee7806?w=300&h=400&fit=crop",
-    year: "2002",
-    genre: "Action",
-    rating: "7.3"
-  },
-  {
-    id: 4,
-    title: "The Dark Knight",
-    image: "https://images.unsplash.com/photo-1509347528160-9a9e33742cdb?w=300&h=400&fit=crop",
-    year: "2008",
-    genre: "Drama",
-    rating: "9.0"
-  },
-  {
-    id: 5,
-    title: "Avengers",
-    image: "https://images.unsplash.com/photo-1635805737707-575885ab0820?w=300&h=400&fit=crop",
-    year: "2012",
-    genre: "Action",
-    rating: "8.0"
-  },
-  {
-    id: 6,
-    title: "Inception",
-    image: "https://images.unsplash.com/photo-1440404653325-ab127d49abc1?w=300&h=400&fit=crop",
-    year: "2010",
-    genre: "Sci-Fi",
-    rating: "8.8"
-  }
-];
-
-export const ContentRow = ({ title, items = defaultMovies, isFocused = false, onFocusChange }: ContentRowProps) => {
+export const ContentRow = ({ title, items = recommendedMovies, isFocused = false, onFocusChange }: ContentRowProps) => {
   const [hoveredItem, setHoveredItem] = useState<number | null>(null);
   const [focusedIndex, setFocusedIndex] = useState(0);
   const [isRowFocused, setIsRowFocused] = useState(false);
   const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [watchlist, addToWatchlist] = useWatchlist();
 
   useEffect(() => {
     if (isFocused && itemRefs.current[0]) {
@@ -88,6 +34,21 @@ export const ContentRow = ({ title, items = defaultMovies, isFocused = false, on
     onFocusChange?.(isRowFocused);
   }, [isRowFocused, onFocusChange]);
 
+  // Let the assistant know which title has focus
+  useEffect(() => {
+    const item = items[focusedIndex];
+    if (!isRowFocused || !item) return;
+    updateScreenContext({
+      focusedContent: {
+        row: title,
+        item,
+        position: focusedIndex + 1,
+        left: items[focusedIndex - 1],
+        right: items[focusedIndex + 1],
+      },
+    });
+  }, [isRowFocused, focusedIndex, items, title]);
+
   useKeyboardNavigation({
     onArrowLeft: () => {
       if (isRowFocused && focusedIndex > 0) {
@@ -106,6 +67,24 @@ export const ContentRow = ({ title, items = defaultMovies, isFocused = false, on
     disabled: false,
   });
 
+  // Assistant requests that name a title in this row
+  useLauncherCommand("focusContent", ({ title }) => {
+    const index = items.findIndex(item => matchesName(item.title, title));
+    if (index < 0) return false;
+
+    setFocusedIndex(index);
+    itemRefs.current[index]?.focus();
+    return true;
+  });
+
+  useLauncherCommand("addToWatchlist", ({ title }) => {
+    const item = items.find(item => matchesName(item.title, title));
+    if (!item) return false;
+
+    addToWatchlist(item.title);
+    return true;
+  });
+
   const handleFocus = (index: number) => {
     setFocusedIndex(index);
     setIsRowFocused(true);
@@ -187,10 +166,21 @@ export const ContentRow = ({ title, items = defaultMovies, isFocused = false, on
                         <Button
                           size="sm"
                           variant="outline"
+                          onClick={() => addToWatchlist(item.title)}
+                          disabled={watchlist.includes(item.title)}
                           className="w-full bg-white/10 border-white/30 text-white hover:bg-white/20 text-xs"
                         >
-                          <Plus className="w-3 h-3 mr-1" />
-                          Add to Watchlist
+                          {watchlist.includes(item.title) ? (
+                            <>
+                              <Check className="w-3 h-3 mr-1" />
+                              In Watchlist
+                            </>
+                          ) : (
+                            <>
+                              <Plus className="w-3 h-3 mr-1" />
+                              Add to Watchlist
+                            </>
+                          )}
                         </Button>
                       </div>
                     </div>
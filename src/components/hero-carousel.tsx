@@ -1,46 +1,29 @@
 import { useState, useEffect, useRef } from "react";
-import { ChevronLeft, ChevronRight, Play } from "lucide-react";
+import { ChevronLeft, ChevronRight, Pause, Play } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
+import { useLauncherCommand } from "@/hooks/use-launcher-command";
+import { useAssistantOverlay } from "@/hooks/use-assistant-overlay";
+import { registerMediaElement } from "@/lib/audio-focus";
+import { heroSlides } from "@/lib/launcher-data";
+import { updateScreenContext } from "@/lib/screen-context";
 
 interface HeroCarouselProps {
   isFocused?: boolean;
   onFocusChange?: (focused: boolean) => void;
 }
 
-const heroContent = [
-  {
-    id: 1,
-    title: "The Last of Us",
-    description: "A gripping post-apocalyptic drama series",
-    image: "/lovable-uploads/c9bb5f22-f461-48d3-92d0-377bc6e49aa1.png",
-    category: "Series",
-    rating: "9.0"
-  },
-  {
-    id: 2,
-    title: "Featured Movie",
-    description: "Discover amazing content with AI assistance",
-    image: "https://images.unsplash.com/photo-1489599083698-2aa49c3b3100?w=1200&h=400&fit=crop",
-    category: "Movie",
-    rating: "8.5"
-  },
-  {
-    id: 3,
-    title: "Popular Shows",
-    description: "Trending content you might enjoy",
-    image: "https://images.unsplash.com/photo-1598387993441-a364f854c3e1?w=1200&h=400&fit=crop",
-    category: "Collection",
-    rating: "8.8"
-  }
-];
-
 export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselProps) => {
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isHovered, setIsHovered] = useState(false);
   const [isCarouselFocused, setIsCarouselFocused] = useState(false);
+  // The slide whose trailer is up over its image; moving to another slide takes it down.
+  const [trailer, setTrailer] = useState<{ slide: number; paused: boolean } | null>(null);
   const carouselRef = useRef<HTMLDivElement>(null);
+  const trailerRef = useRef<HTMLVideoElement>(null);
+  const { isOpen: isAssistantOpen } = useAssistantOverlay();
+  const isTrailerUp = trailer?.slide === currentSlide;
 
   useEffect(() => {
     if (isFocused && carouselRef.current) {
@@ -53,14 +36,51 @@ export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselP
     onFocusChange?.(isCarouselFocused);
   }, [isCarouselFocused, onFocusChange]);
 
+  useEffect(() => {
+    updateScreenContext({ heroSlide: currentSlide });
+  }, [currentSlide]);
+
+  useEffect(() => () => updateScreenContext({ heroSlide: null }), []);
+
+  // The trailer is media for audio focus, so it ducks while the assistant talks.
+  useEffect(() => {
+    const video = trailerRef.current;
+    if (!isTrailerUp || !video) return;
+    const unregister = registerMediaElement(video);
+    video.play().catch((e) => {
+      console.warn("Trailer playback failed:", e);
+      setTrailer(null);
+    });
+    return () => {
+      video.pause();
+      unregister();
+    };
+  }, [isTrailerUp, currentSlide]);
+
+  /** Starts the current slide's trailer, or resumes it. */
+  const playTrailer = () => {
+    if (!currentItem.trailer) return;
+    const video = trailerRef.current;
+    if (!video) setTrailer({ slide: currentSlide, paused: false });
+    else video.play().catch((e) => console.warn("Trailer playback failed:", e));
+  };
+
+  const pauseTrailer = () => trailerRef.current?.pause();
+
   const nextSlide = () => {
-    setCurrentSlide((prev) => (prev + 1) % heroContent.length);
+    setCurrentSlide((prev) => (prev + 1) % heroSlides.length);
   };
 
   const prevSlide = () => {
-    setCurrentSlide((prev) => (prev - 1 + heroContent.length) % heroContent.length);
+    setCurrentSlide((prev) => (prev - 1 + heroSlides.length) % heroSlides.length);
   };
 
+  useLauncherCommand("showHeroSlide", ({ index }) => {
+    if (index < 0 || index >= heroSlides.length) return false;
+    setCurrentSlide(index);
+    return true;
+  });
+
   useKeyboardNavigation({
     onArrowLeft: () => {
       if (isCarouselFocused) prevSlide();
@@ -68,17 +88,21 @@ export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselP
     onArrowRight: () => {
       if (isCarouselFocused) nextSlide();
     },
+    // Play and pause reach the trailer from anywhere on the page, from the remote or by voice.
+    onPlay: playTrailer,
+    onPause: pauseTrailer,
     disabled: false,
   });
 
+  // Hold still while the assistant is open, so "this one" keeps meaning the same slide.
   useEffect(() => {
-    if (!isHovered && !isCarouselFocused) {
+    if (!isHovered && !isCarouselFocused && !isAssistantOpen && !isTrailerUp) {
       const timer = setInterval(nextSlide, 6000);
       return () => clearInterval(timer);
     }
-  }, [isHovered, isCarouselFocused]);
+  }, [isHovered, isCarouselFocused, isAssistantOpen, isTrailerUp]);
 
-  const currentItem = heroContent[currentSlide];
+  const currentItem = heroSlides[currentSlide];
 
   return (
     <div 
@@ -92,7 +116,7 @@ export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselP
     >
       {/* Background with parallax effect */}
       <div className="absolute inset-0">
-        {heroContent.map((item, index) => (
+        {heroSlides.map((item, index) => (
           <div
             key={item.id}
             className={cn(
@@ -111,6 +135,18 @@ export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselP
             <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
           </div>
         ))}
+        {isTrailerUp && currentItem.trailer && (
+          <video
+            ref={trailerRef}
+            key={currentItem.id}
+            src={currentItem.trailer}
+            className="absolute inset-0 w-full h-full object-cover"
+            playsInline
+            onPlay={() => setTrailer({ slide: currentSlide, paused: false })}
+            onPause={() => setTrailer({ slide: currentSlide, paused: true })}
+            onEnded={() => setTrailer(null)}
+          />
+        )}
       </div>
 
       {/* Content overlay with frosted glass */}
@@ -136,9 +172,19 @@ export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselP
               <Button 
                 size="lg"
                 className="bg-white text-black hover:bg-white/90 font-semibold px-8 hover-lift"
+                onClick={isTrailerUp && !trailer.paused ? pauseTrailer : playTrailer}
               >
-                <Play className="w-5 h-5 mr-2 fill-current" />
-                Play Now
+                {isTrailerUp && !trailer.paused ? (
+                  <>
+                    <Pause className="w-5 h-5 mr-2 fill-current" />
+                    Pause
+                  </>
+                ) : (
+                  <>
+                    <Play className="w-5 h-5 mr-2 fill-current" />
+                    {isTrailerUp ? "Resume" : "Play Now"}
+                  </>
+                )}
               </Button>
               <Button 
                 variant="outline" 
@@ -185,7 +231,7 @@ export const HeroCarousel = ({ isFocused = false, onFocusChange }: HeroCarouselP
 
       {/* Indicators */}
       <div className="absolute bottom-6 right-6 flex space-x-2">
-        {heroContent.map((_, index) => (
+        {heroSlides.map((_, index) => (
           <button
             key={index}
             className={cn(
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Delete, Send, Space } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
+
+type KeyAction = { type: "char"; value: string } | { type: "space" } | { type: "backspace" } | { type: "submit" };
+
+const charRows = ["1234567890", "qwertyuiop", "asdfghjkl'", "zxcvbnm,.?"].map((row) =>
+  row.split("").map((value): KeyAction => ({ type: "char", value })),
+);
+
+const rows: KeyAction[][] = [...charRows, [{ type: "space" }, { type: "backspace" }, { type: "submit" }]];
+
+interface OnScreenKeyboardProps {
+  onInput: (char: string) => void;
+  onBackspace: () => void;
+  onSubmit: () => void;
+  /** Stop handling the D-pad, e.g. while a physical keyboard is typing into the field. */
+  disabled?: boolean;
+}
+
+/** QWERTY keyboard driven by the remote's arrows and OK button. */
+export const OnScreenKeyboard = ({ onInput, onBackspace, onSubmit, disabled = false }: OnScreenKeyboardProps) => {
+  const [focus, setFocus] = useState({ row: 1, col: 0 });
+
+  const press = (key: KeyAction) => {
+    switch (key.type) {
+      case "char":
+        onInput(key.value);
+        break;
+      case "space":
+        onInput(" ");
+        break;
+      case "backspace":
+        onBackspace();
+        break;
+      case "submit":
+        onSubmit();
+        break;
+    }
+  };
+
+  // Moving between rows of different length keeps the same relative position.
+  const moveRow = (delta: number) => {
+    setFocus(({ row, col }) => {
+      const next = Math.min(rows.length - 1, Math.max(0, row + delta));
+      const position = col / Math.max(1, rows[row].length - 1);
+      return { row: next, col: Math.round(position * (rows[next].length - 1)) };
+    });
+  };
+
+  const moveCol = (delta: number) => {
+    setFocus(({ row, col }) => ({ row, col: Math.min(rows[row].length - 1, Math.max(0, col + delta)) }));
+  };
+
+  useKeyboardNavigation({
+    onArrowUp: () => moveRow(-1),
+    onArrowDown: () => moveRow(1),
+    onArrowLeft: () => moveCol(-1),
+    onArrowRight: () => moveCol(1),
+    onEnter: () => press(rows[focus.row][focus.col]),
+    disabled,
+  });
+
+  const renderLabel = (key: KeyAction) => {
+    switch (key.type) {
+      case "char":
+        return key.value.toUpperCase();
+      case "space":
+        return <Space className="w-4 h-4" />;
+      case "backspace":
+        return <Delete className="w-4 h-4" />;
+      case "submit":
+        return <Send className="w-4 h-4" />;
+    }
+  };
+
+  return (
+    <div className="space-y-1.5" role="group" aria-label="On-screen keyboard">
+      {rows.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex justify-center gap-1.5">
+          {row.map((key, colIndex) => {
+            const isFocused = !disabled && focus.row === rowIndex && focus.col === colIndex;
+            return (
+              <button
+                key={colIndex}
+                type="button"
+                tabIndex={-1}
+                onClick={() => {
+                  setFocus({ row: rowIndex, col: colIndex });
+                  press(key);
+                }}
+                className={cn(
+                  "h-9 rounded-lg text-sm font-medium text-white/90 bg-white/5 border border-white/10",
+                  "flex items-center justify-center transition-all duration-150",
+                  key.type === "char" ? "w-9" : "flex-1",
+                  key.type === "submit" && "bg-accent/30 border-accent/40",
+                  isFocused && "ring-2 ring-accent scale-110 bg-white/15",
+                )}
+              >
+                {renderLabel(key)}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
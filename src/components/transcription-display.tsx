@@ -2,8 +2,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageSquare, Volume2, Copy, User, Bot } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Volume2, Copy, User, Bot, Languages, Square } from "lucide-react";
 import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useAssistantSettings } from "@/hooks/use-assistant-settings";
+import { useTranslation } from "@/hooks/use-translation";
+import { assistantLanguages, languageLabel } from "@/lib/assistant-persona";
+import type { SpeechPlayback, WordBoundary } from "@/lib/text-to-speech";
 
 export interface TranscriptionEntry {
   id: string;
@@ -11,24 +17,106 @@ export interface TranscriptionEntry {
   userInput: string;
   aiResponse: string;
   language?: string;
+  /** Launcher actions the assistant took during the exchange, e.g. "Opened YouTube". */
+  actions?: string[];
+  /** A live hypothesis that the final transcript will replace. */
+  isInterim?: boolean;
 }
 
 interface TranscriptionDisplayProps {
   transcriptions: TranscriptionEntry[];
-  isPlaying: boolean;
-  onPlayResponse: (text: string) => void;
+  /** Omit to hide the speaker button, e.g. where replies were already spoken live. */
+  onPlayResponse?: (text: string) => void;
+  /** What is being read aloud, so its current word can be highlighted. */
+  playback?: SpeechPlayback;
+  /** Shown in place of the speaker button on the response being read. */
+  onStopPlayback?: () => void;
 }
 
+const copyToClipboard = (text: string) => {
+  navigator.clipboard.writeText(text);
+  toast.success("Copied to clipboard");
+};
+
+// Select items can't have an empty value, so "no translation" needs a stand-in.
+const NO_TRANSLATION = "off";
+const translationTargets = assistantLanguages.filter((language) => language.code !== "auto");
+
+interface TranscriptTextProps {
+  text: string;
+  /** Language `text` is in, when known; detected otherwise. */
+  language?: string;
+  /** Null to show the original alone. */
+  translateTo: string | null;
+  boxClassName: string;
+  textClassName?: string;
+  /** The word being read aloud, when this text is the one being read. */
+  spokenWord?: WordBoundary | null;
+}
+
+const withHighlight = (text: string, word: WordBoundary | null | undefined) => {
+  if (!word) return text;
+  const end = word.charIndex + word.charLength;
+  return (
+    <>
+      {text.slice(0, word.charIndex)}
+      <mark className="bg-accent/40 text-foreground rounded-sm">{text.slice(word.charIndex, end)}</mark>
+      {text.slice(end)}
+    </>
+  );
+};
+
+/** The original text, with its translation beside it when a target language is chosen. */
+const TranscriptText = ({ text, language, translateTo, boxClassName, textClassName, spokenWord }: TranscriptTextProps) => {
+  const translation = useTranslation(text, translateTo, language);
+  const original = (
+    <div className={cn(boxClassName, "p-3")}>
+      <p className={cn("text-sm", textClassName ?? "text-foreground")}>{withHighlight(text, spokenWord)}</p>
+    </div>
+  );
+  if (translation.status === "off") return original;
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {original}
+      <div className={cn(boxClassName, "p-3 space-y-1")}>
+        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          <Languages className="w-3 h-3" />
+          <span>{languageLabel(translateTo ?? "")}</span>
+          {translation.status === "done" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => copyToClipboard(translation.text)}
+              className="h-5 w-5 p-0 ml-auto"
+            >
+              <Copy className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+        {translation.status === "done" ? (
+          <p className="text-sm text-foreground">{translation.text}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">
+            {translation.status === "translating" && "Translating..."}
+            {translation.status === "unavailable" && "Translation isn't available for this language on this device"}
+            {translation.status === "failed" && "Translation failed"}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const TranscriptionDisplay = ({ 
   transcriptions, 
-  isPlaying, 
-  onPlayResponse 
+  onPlayResponse,
+  playback,
+  onStopPlayback
 }: TranscriptionDisplayProps) => {
-  
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    toast.success("Copied to clipboard");
-  };
+  const [settings, updateSettings] = useAssistantSettings();
+  const translateTo = settings.translationLanguage || null;
+  const wordIn = (text: string) => (playback && playback.text === text ? playback.word : null);
 
   return (
     <Card className="bg-card border-border/50">
@@ -39,6 +127,23 @@ export const TranscriptionDisplay = ({
           <Badge variant="outline" className="ml-auto">
             {transcriptions.length} conversations
           </Badge>
+          <Select
+            value={settings.translationLanguage || NO_TRANSLATION}
+            onValueChange={(value) => updateSettings({ translationLanguage: value === NO_TRANSLATION ? "" : value })}
+          >
+            <SelectTrigger className="h-7 w-auto gap-1 text-xs" aria-label="Translate into">
+              <Languages className="w-3 h-3" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TRANSLATION}>No translation</SelectItem>
+              {translationTargets.map((language) => (
+                <SelectItem key={language.code} value={language.code}>
+                  {language.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
@@ -57,6 +162,11 @@ export const TranscriptionDisplay = ({
                     <Badge variant="outline" className="text-xs">
                       {entry.timestamp.toLocaleString()}
                     </Badge>
+                    {entry.isInterim && (
+                      <Badge variant="secondary" className="text-xs animate-pulse">
+                        Live
+                      </Badge>
+                    )}
                     {entry.language && (
                       <Badge variant="secondary" className="text-xs">
                         {entry.language}
@@ -73,43 +183,75 @@ export const TranscriptionDisplay = ({
                         variant="ghost"
                         size="sm"
                         onClick={() => copyToClipboard(entry.userInput)}
+                        disabled={entry.isInterim}
                         className="h-6 w-6 p-0"
                       >
                         <Copy className="w-3 h-3" />
                       </Button>
                     </div>
-                    <div className="bg-muted/30 rounded-md p-3">
-                      <p className="text-sm text-foreground">{entry.userInput}</p>
-                    </div>
+                    <TranscriptText
+                      text={entry.userInput}
+                      language={entry.language}
+                      // Partials change too often to be worth translating.
+                      translateTo={entry.isInterim ? null : translateTo}
+                      boxClassName="bg-muted/30 rounded-md"
+                      textClassName={entry.isInterim ? "text-muted-foreground italic" : undefined}
+                      spokenWord={wordIn(entry.userInput)}
+                    />
                   </div>
 
-                  {/* AI Response */}
-                  <div className="space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Bot className="w-4 h-4 text-accent" />
-                      <span className="text-sm font-medium text-foreground">AI Response:</span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => copyToClipboard(entry.aiResponse)}
-                        className="h-6 w-6 p-0"
-                      >
-                        <Copy className="w-3 h-3" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => onPlayResponse(entry.aiResponse)}
-                        disabled={isPlaying}
-                        className="h-6 w-6 p-0"
-                      >
-                        <Volume2 className="w-3 h-3" />
-                      </Button>
+                  {entry.actions && entry.actions.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {entry.actions.map((action, i) => (
+                        <Badge key={i} variant="secondary" className="text-xs font-normal">
+                          {action}
+                        </Badge>
+                      ))}
                     </div>
-                    <div className="bg-accent/10 border border-accent/20 rounded-md p-3">
-                      <p className="text-sm text-foreground">{entry.aiResponse}</p>
+                  )}
+
+                  {/* AI Response, absent for plain transcriptions */}
+                  {entry.aiResponse && (
+                    <div className="space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <Bot className="w-4 h-4 text-accent" />
+                        <span className="text-sm font-medium text-foreground">AI Response:</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyToClipboard(entry.aiResponse)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                        {onStopPlayback && playback?.text === entry.aiResponse ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={onStopPlayback}
+                            className="h-6 w-6 p-0"
+                          >
+                            <Square className="w-3 h-3" />
+                          </Button>
+                        ) : onPlayResponse && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onPlayResponse(entry.aiResponse)}
+                            className="h-6 w-6 p-0"
+                          >
+                            <Volume2 className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </div>
+                      <TranscriptText
+                        text={entry.aiResponse}
+                        translateTo={translateTo}
+                        boxClassName="bg-accent/10 border border-accent/20 rounded-md"
+                        spokenWord={wordIn(entry.aiResponse)}
+                      />
                     </div>
-                  </div>
+                  )}
                 </div>
               ))
             )}
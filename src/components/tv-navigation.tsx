@@ -1,8 +1,12 @@
 import { useState, useRef, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
+import { useLauncherCommand } from "@/hooks/use-launcher-command";
+import { matchesName } from "@/lib/launcher-commands";
+import { launcherTabs } from "@/lib/launcher-data";
 
 interface TVNavigationProps {
   onAIClick: () => void;
@@ -10,14 +14,8 @@ interface TVNavigationProps {
   isFocused?: boolean;
 }
 
-const navItems = [
-  { id: "home", label: "Home", active: true },
-  { id: "library", label: "Library", active: false },
-  { id: "apps", label: "Apps", active: false },
-  { id: "settings", label: "Settings", active: false },
-];
-
 export const TVNavigation = ({ onAIClick, onFocusChange, isFocused: propIsFocused = false }: TVNavigationProps) => {
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState("home");
   const [focusedIndex, setFocusedIndex] = useState(0);
   const [isFocused, setIsFocused] = useState(false);
@@ -56,14 +54,32 @@ export const TVNavigation = ({ onAIClick, onFocusChange, isFocused: propIsFocuse
       if (focusedIndex === buttonRefs.current.length - 1) {
         onAIClick();
       } else {
-        const tabId = navItems[focusedIndex]?.id;
-        if (tabId) setActiveTab(tabId);
+        const item = launcherTabs[focusedIndex];
+        if (item?.path) navigate(item.path);
+        else if (item) setActiveTab(item.id);
       }
     },
     disabled: false,
   });
 
+  // Assistant "go to <tab>" requests
+  useLauncherCommand("switchTab", ({ tabId }) => {
+    const index = launcherTabs.findIndex(tab => matchesName(tab.id, tabId) || matchesName(tab.label, tabId));
+    if (index < 0) return false;
+
+    const tab = launcherTabs[index];
+    if (tab.path) navigate(tab.path);
+    else setActiveTab(tab.id);
+    setFocusedIndex(index);
+    return true;
+  });
+
   const handleTabClick = (tabId: string, index: number) => {
+    const path = launcherTabs[index]?.path;
+    if (path) {
+      navigate(path);
+      return;
+    }
     setActiveTab(tabId);
     setFocusedIndex(index);
     setIsFocused(true);
@@ -92,7 +108,7 @@ export const TVNavigation = ({ onAIClick, onFocusChange, isFocused: propIsFocuse
       >
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            {navItems.map((item, index) => {
+            {launcherTabs.map((item, index) => {
               const isActive = activeTab === item.id;
               
               return (
@@ -130,9 +146,9 @@ export const TVNavigation = ({ onAIClick, onFocusChange, isFocused: propIsFocuse
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
-                ref={(el) => (buttonRefs.current[navItems.length] = el)}
+                ref={(el) => (buttonRefs.current[launcherTabs.length] = el)}
                 onClick={onAIClick}
-                onFocus={() => handleFocus(navItems.length)}
+                onFocus={() => handleFocus(launcherTabs.length)}
                 onBlur={handleBlur}
                 size="lg"
                 className={cn(
@@ -1,10 +1,13 @@
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { Settings, Mic, Brain } from "lucide-react";
+import { Settings, Mic, Brain, History, Activity, AudioLines } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
+import { useAssistantSettings } from "@/hooks/use-assistant-settings";
+import { languageLabel } from "@/lib/assistant-persona";
 
 export const Navigation = () => {
   const location = useLocation();
+  const [settings] = useAssistantSettings();
 
   return (
     <nav className="border-b border-border bg-card/50 backdrop-blur-sm">
@@ -17,7 +20,9 @@ export const Navigation = () => {
                 <h1 className="text-xl font-bold bg-gradient-to-r from-ai-glow to-accent bg-clip-text text-transparent">
                   WorkingEdge ATLAS
                 </h1>
-                <p className="text-xs text-muted-foreground">AI Multi Lingual Assistant</p>
+                <p className="text-xs text-muted-foreground">
+                  AI Multi Lingual Assistant · {languageLabel(settings.language)}
+                </p>
               </div>
             </div>
           </div>
@@ -37,6 +42,48 @@ export const Navigation = () => {
               </Button>
             </Link>
             
+            <Link to="/history">
+              <Button
+                variant={location.pathname === "/history" ? "default" : "ghost"}
+                size="sm"
+                className={cn(
+                  "flex items-center space-x-2",
+                  location.pathname === "/history" && "bg-primary text-primary-foreground"
+                )}
+              >
+                <History className="w-4 h-4" />
+                <span>History</span>
+              </Button>
+            </Link>
+
+            <Link to="/transcribe">
+              <Button
+                variant={location.pathname === "/transcribe" ? "default" : "ghost"}
+                size="sm"
+                className={cn(
+                  "flex items-center space-x-2",
+                  location.pathname === "/transcribe" && "bg-primary text-primary-foreground"
+                )}
+              >
+                <AudioLines className="w-4 h-4" />
+                <span>Transcribe</span>
+              </Button>
+            </Link>
+
+            <Link to="/diagnostics">
+              <Button
+                variant={location.pathname === "/diagnostics" ? "default" : "ghost"}
+                size="sm"
+                className={cn(
+                  "flex items-center space-x-2",
+                  location.pathname === "/diagnostics" && "bg-primary text-primary-foreground"
+                )}
+              >
+                <Activity className="w-4 h-4" />
+                <span>Diagnostics</span>
+              </Button>
+            </Link>
+
             <Link to="/settings">
               <Button
                 variant={location.pathname === "/settings" ? "default" : "ghost"}
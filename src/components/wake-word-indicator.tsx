@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Mic } from "lucide-react";
+import { toast } from "sonner";
+import { useAssistantSettings } from "@/hooks/use-assistant-settings";
+import { useAssistantOverlay } from "@/hooks/use-assistant-overlay";
+import { useWakeWordTemplates } from "@/hooks/use-wake-word-templates";
+import { WAKE_PHRASE, WakeWordListener } from "@/lib/wake-word";
+
+/**
+ * Keeps the wake-word spotter armed while it is enabled, trained and the
+ * assistant is closed, and shows a mic badge whenever it is listening.
+ */
+export const WakeWordIndicator = () => {
+  const [settings] = useAssistantSettings();
+  const templates = useWakeWordTemplates();
+  const { isOpen, open } = useAssistantOverlay();
+  const [isArmed, setIsArmed] = useState(false);
+  const shouldListen = settings.wakeWordEnabled && templates.length > 0 && !isOpen;
+
+  useEffect(() => {
+    if (!shouldListen) return;
+
+    const listener = new WakeWordListener();
+    listener.onWake = () => open(true);
+    listener.onError = () => {
+      setIsArmed(false);
+      toast.error("Wake word needs microphone access");
+    };
+    listener.start(templates, settings.wakeWordSensitivity).then(() => setIsArmed(listener.isListening()));
+
+    return () => {
+      listener.stop();
+      setIsArmed(false);
+    };
+  }, [shouldListen, templates, settings.wakeWordSensitivity, open]);
+
+  if (!isArmed) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed top-4 right-4 z-40 flex items-center space-x-2 rounded-full glass-panel border border-white/10 px-3 py-1.5"
+    >
+      <span className="relative flex h-2 w-2">
+        <span className="absolute inline-flex h-full w-full rounded-full bg-accent opacity-75 animate-ping" />
+        <span className="relative inline-flex h-2 w-2 rounded-full bg-accent" />
+      </span>
+      <Mic className="w-3.5 h-3.5 text-white/80" />
+      <span className="text-xs text-white/80">Say "{WAKE_PHRASE}"</span>
+    </div>
+  );
+};
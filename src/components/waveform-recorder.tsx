@@ -4,37 +4,45 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Mic, MicOff, Play, Square } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { MicCapture } from "@/lib/mic-capture";
 
 interface WaveformRecorderProps {
   onRecordingComplete: (audioBlob: Blob) => void;
   isProcessing: boolean;
+  onRecordingStart?: () => void;
+  /** Receives the microphone as 16-bit mono PCM frames while recording, for streaming. */
+  onPcmFrame?: (frame: Int16Array) => void;
+  pcmSampleRate?: number;
 }
 
-export const WaveformRecorder = ({ onRecordingComplete, isProcessing }: WaveformRecorderProps) => {
+export const WaveformRecorder = ({
+  onRecordingComplete,
+  isProcessing,
+  onRecordingStart,
+  onPcmFrame,
+  pcmSampleRate = 16000,
+}: WaveformRecorderProps) => {
   const [isRecording, setIsRecording] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
   const [waveformData, setWaveformData] = useState<number[]>(new Array(50).fill(0));
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationRef = useRef<number | null>(null);
   const chunksRef = useRef<Blob[]>([]);
 
   const startRecording = async () => {
+    // MicCapture also handles browsers without AudioWorklet.
+    const capture = new MicCapture(pcmSampleRate);
+    captureRef.current = capture;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100
-        } 
-      });
-      
+      await capture.start((frame) => onPcmFrame?.(frame));
+      const stream = capture.stream;
+      if (!stream) return;
+
       // Set up audio analysis for waveform
-      audioContextRef.current = new AudioContext();
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      source.connect(analyserRef.current);
+      analyserRef.current = capture.audioContext.createAnalyser();
+      capture.inputNode.connect(analyserRef.current);
       
       analyserRef.current.fftSize = 256;
       const bufferLength = analyserRef.current.frequencyBinCount;
@@ -76,10 +84,7 @@ export const WaveformRecorder = ({ onRecordingComplete, isProcessing }: Waveform
         onRecordingComplete(audioBlob);
         
         // Cleanup
-        stream.getTracks().forEach(track => track.stop());
-        if (audioContextRef.current) {
-          audioContextRef.current.close();
-        }
+        capture.close();
         if (animationRef.current) {
           cancelAnimationFrame(animationRef.current);
         }
@@ -89,9 +94,11 @@ export const WaveformRecorder = ({ onRecordingComplete, isProcessing }: Waveform
 
       mediaRecorderRef.current.start();
       setIsRecording(true);
+      onRecordingStart?.();
       toast.success("Recording started");
       
     } catch (error) {
+      capture.close();
       console.error("Error starting recording:", error);
       toast.error("Failed to start recording. Please check microphone permissions.");
     }
@@ -110,9 +117,7 @@ export const WaveformRecorder = ({ onRecordingComplete, isProcessing }: Waveform
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
+      captureRef.current?.close();
     };
   }, []);
 
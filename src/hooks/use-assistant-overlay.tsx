@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import {
+  closeAssistantOverlay,
+  getAssistantOverlayState,
+  openAssistantOverlay,
+  resumeConversationInOverlay,
+  subscribeAssistantOverlay,
+} from "@/lib/assistant-overlay";
+
+export const useAssistantOverlay = () => {
+  const state = useSyncExternalStore(subscribeAssistantOverlay, getAssistantOverlayState);
+  return { ...state, open: openAssistantOverlay, resumeConversation: resumeConversationInOverlay, close: closeAssistantOverlay };
+};
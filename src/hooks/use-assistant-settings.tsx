@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from "react";
+import {
+  getAssistantSettings,
+  subscribeAssistantSettings,
+  updateAssistantSettings,
+} from "@/lib/assistant-settings";
+
+export const useAssistantSettings = () => {
+  const settings = useSyncExternalStore(subscribeAssistantSettings, getAssistantSettings);
+  return [settings, updateAssistantSettings] as const;
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import {
+  listConversations,
+  subscribeConversationHistory,
+  type StoredConversation,
+} from "@/lib/conversation-history";
+
+/** The profile's saved conversations, reloaded whenever history changes. */
+export const useConversationHistory = (profileId: string) => {
+  const [conversations, setConversations] = useState<StoredConversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      listConversations(profileId)
+        .then((loaded) => {
+          if (!cancelled) setConversations(loaded);
+        })
+        .catch((e) => console.error("Failed to load conversation history:", e))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    setIsLoading(true);
+    load();
+    const unsubscribe = subscribeConversationHistory(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [profileId]);
+
+  return { conversations, isLoading };
+};
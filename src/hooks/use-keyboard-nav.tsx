@@ -7,6 +7,9 @@ interface KeyboardNavigationOptions {
   onArrowRight?: () => void;
   onEnter?: () => void;
   onEscape?: () => void;
+  /** The remote's play and pause keys. */
+  onPlay?: () => void;
+  onPause?: () => void;
   disabled?: boolean;
 }
 
@@ -18,6 +21,8 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions) => {
     onArrowRight,
     onEnter,
     onEscape,
+    onPlay,
+    onPause,
     disabled = false
   } = options;
 
@@ -50,9 +55,17 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions) => {
           event.preventDefault();
           onEscape?.();
           break;
+        case 'MediaPlay':
+          event.preventDefault();
+          onPlay?.();
+          break;
+        case 'MediaPause':
+          event.preventDefault();
+          onPause?.();
+          break;
       }
     },
-    [onArrowUp, onArrowDown, onArrowLeft, onArrowRight, onEnter, onEscape, disabled]
+    [onArrowUp, onArrowDown, onArrowLeft, onArrowRight, onEnter, onEscape, onPlay, onPause, disabled]
   );
 
   useEffect(() => {
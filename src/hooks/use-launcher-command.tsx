@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import {
+  subscribeLauncherCommand,
+  type LauncherCommandHandler,
+  type LauncherCommandType,
+} from "@/lib/launcher-commands";
+
+/**
+ * Subscribes the component to one launcher command for its lifetime. The
+ * latest `handler` is always used, so it may close over fresh state.
+ */
+export const useLauncherCommand = <T extends LauncherCommandType>(
+  type: T,
+  handler: LauncherCommandHandler<T>,
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => subscribeLauncherCommand(type, (command) => handlerRef.current(command)),
+    [type]
+  );
+};
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getPipelineMetrics, subscribePipelineMetrics } from "@/lib/pipeline-metrics";
+
+export const usePipelineMetrics = () => useSyncExternalStore(subscribePipelineMetrics, getPipelineMetrics);
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { addProfile, getProfilesState, setActiveProfile, subscribeProfiles } from "@/lib/profiles";
+
+export const useProfiles = () => {
+  const { profiles, activeId } = useSyncExternalStore(subscribeProfiles, getProfilesState);
+  const activeProfile = profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+  return { profiles, activeProfile, addProfile, setActiveProfile };
+};
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getSessionRecordings, subscribeSessionRecordings } from "@/lib/session-recordings";
+
+export const useSessionRecordings = () => useSyncExternalStore(subscribeSessionRecordings, getSessionRecordings);
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getSpeechPlayback, subscribeSpeechPlayback } from "@/lib/text-to-speech";
+
+export const useSpeechPlayback = () => useSyncExternalStore(subscribeSpeechPlayback, getSpeechPlayback);
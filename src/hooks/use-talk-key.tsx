@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+
+interface TalkKeyOptions {
+  /** `KeyboardEvent.key` values that act as the talk button. */
+  keys: string[];
+  onPress: () => void;
+  onRelease?: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Press/release handling for the remote's talk button. Listens in the capture
+ * phase so it works wherever focus is, and swallows the key so it doesn't also
+ * drive D-pad navigation. Auto-repeat is ignored, which is what makes holding work.
+ */
+export const useTalkKey = ({ keys, onPress, onRelease, disabled = false }: TalkKeyOptions) => {
+  const handlersRef = useRef({ onPress, onRelease });
+  handlersRef.current = { onPress, onRelease };
+  const keyList = keys.join("\n");
+
+  useEffect(() => {
+    if (disabled) return;
+    const talkKeys = keyList.split("\n");
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!talkKeys.includes(event.key)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      if (!event.repeat) handlersRef.current.onPress();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (!talkKeys.includes(event.key)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      handlersRef.current.onRelease?.();
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    window.addEventListener("keyup", handleKeyUp, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      window.removeEventListener("keyup", handleKeyUp, true);
+    };
+  }, [keyList, disabled]);
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { translateText } from "@/lib/language-tools";
+
+export type TranslationState =
+  | { status: "off" }
+  | { status: "translating" }
+  | { status: "done"; text: string }
+  | { status: "unavailable" }
+  | { status: "failed" };
+
+/** `text` translated into `targetLanguage`; off while no target is chosen. */
+export const useTranslation = (text: string, targetLanguage: string | null, sourceLanguage?: string) => {
+  const [state, setState] = useState<TranslationState>({ status: "off" });
+
+  useEffect(() => {
+    if (!targetLanguage || !text) {
+      setState({ status: "off" });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ status: "translating" });
+    translateText(text, targetLanguage, sourceLanguage)
+      .then((translated) => {
+        if (!cancelled) setState(translated === null ? { status: "unavailable" } : { status: "done", text: translated });
+      })
+      .catch((e) => {
+        console.error("Translation failed:", e);
+        if (!cancelled) setState({ status: "failed" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [text, targetLanguage, sourceLanguage]);
+
+  return state;
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getWakeWordTemplates, subscribeWakeWordTemplates } from "@/lib/wake-word";
+
+export const useWakeWordTemplates = () =>
+  useSyncExternalStore(subscribeWakeWordTemplates, getWakeWordTemplates);
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { addToWatchlist, getWatchlist, subscribeWatchlist } from "@/lib/watchlist";
+
+export const useWatchlist = () => {
+  const watchlist = useSyncExternalStore(subscribeWatchlist, getWatchlist);
+  return [watchlist, addToWatchlist] as const;
+};
@@ -0,0 +1,42 @@
+import type { StoredConversation } from './conversation-history';
+
+/**
+ * Whether the AI overlay is showing. It is mounted once for the whole app so
+ * the talk key can open it from any screen; pages only read and request it.
+ */
+export interface AssistantOverlayState {
+  isOpen: boolean;
+  /** Start listening as soon as the overlay opens, e.g. when opened by the talk key. */
+  listenOnOpen: boolean;
+  /** A past conversation to pick up again, with its turns re-sent as context. */
+  resume: StoredConversation | null;
+}
+
+const listeners = new Set<() => void>();
+let state: AssistantOverlayState = { isOpen: false, listenOnOpen: false, resume: null };
+
+const set = (next: AssistantOverlayState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const getAssistantOverlayState = () => state;
+
+export const openAssistantOverlay = (listenOnOpen = false) => {
+  if (!state.isOpen) set({ isOpen: true, listenOnOpen, resume: null });
+};
+
+export const resumeConversationInOverlay = (conversation: StoredConversation) => {
+  if (!state.isOpen) set({ isOpen: true, listenOnOpen: false, resume: conversation });
+};
+
+export const closeAssistantOverlay = () => {
+  if (state.isOpen) set({ isOpen: false, listenOnOpen: false, resume: null });
+};
+
+export const subscribeAssistantOverlay = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
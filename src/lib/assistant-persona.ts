@@ -0,0 +1,101 @@
+import { launcherApps, launcherTabs } from './launcher-data';
+
+/** Prebuilt voices offered by the Live API's native audio models. */
+export const assistantVoices = [
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Zephyr', description: 'Bright' },
+] as const;
+
+/** `auto` replies in whatever language the viewer speaks. */
+export const assistantLanguages = [
+  { code: 'auto', label: 'Auto-detect' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ta-IN', label: 'Tamil' },
+  { code: 'te-IN', label: 'Telugu' },
+  { code: 'bn-IN', label: 'Bengali' },
+  { code: 'mr-IN', label: 'Marathi' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'ar-XA', label: 'Arabic' },
+] as const;
+
+export type PersonaId = 'tv-concierge' | 'movie-buff' | 'kids' | 'custom';
+
+export interface PersonaPreset {
+  id: PersonaId;
+  label: string;
+  prompt: string;
+}
+
+const appNames = launcherApps.map((app) => app.name).join(', ');
+const tabNames = launcherTabs.map((tab) => tab.label).join(', ');
+
+export const personaPresets: PersonaPreset[] = [
+  {
+    id: 'tv-concierge',
+    label: 'TV concierge',
+    prompt: [
+      'You are ATLAS, the voice concierge of a TV launcher, speaking to viewers on the couch.',
+      `The launcher has these apps: ${appNames}; and these sections: ${tabNames}.`,
+      'Keep replies to one or two short spoken sentences; never read out lists, links or markup.',
+      'When the viewer asks to open, show, find or save something on screen, call the matching function instead of describing how to do it.',
+      'If a request is unclear, ask one brief follow-up question.',
+    ].join(' '),
+  },
+  {
+    id: 'movie-buff',
+    label: 'Movie buff',
+    prompt: [
+      'You are ATLAS, an enthusiastic film expert built into a TV launcher.',
+      'Recommend titles with a one-line pitch, mention year and genre, and avoid spoilers unless asked.',
+      'Use the launcher functions to focus titles or add them to the watchlist when the viewer wants to.',
+    ].join(' '),
+  },
+  {
+    id: 'kids',
+    label: 'Kids mode',
+    prompt: [
+      'You are ATLAS, a friendly helper on a family TV. Use simple words and a warm, playful tone.',
+      'Only suggest content suitable for children and never open apps or titles meant for adults.',
+    ].join(' '),
+  },
+  { id: 'custom', label: 'Custom', prompt: '' },
+];
+
+export const DEFAULT_PERSONA_ID: PersonaId = 'tv-concierge';
+
+export const languageLabel = (code: string) =>
+  assistantLanguages.find((language) => language.code === code)?.label ?? code;
+
+export const SCREEN_CONTEXT_PREFIX = '[Screen context]';
+
+const SCREEN_CONTEXT_RULE =
+  `Messages starting with ${SCREEN_CONTEXT_PREFIX} describe what is on the viewer's screen right now. ` +
+  'Do not reply to them; use the latest one to work out what "this", "that one" or "the one on the left" means.';
+
+/**
+ * System instruction for a new session. Native audio models pick their speech
+ * language on their own, so the chosen language is asked for here rather than
+ * in the speech config.
+ */
+export const buildSystemInstruction = (personaId: PersonaId, customPrompt: string, language: string) => {
+  const preset = personaPresets.find((persona) => persona.id === personaId);
+  const persona = personaId === 'custom' ? customPrompt.trim() : preset?.prompt ?? '';
+  const languageRule =
+    language === 'auto'
+      ? 'Always reply in the language the viewer is speaking.'
+      : `Always reply in ${languageLabel(language)}, whatever language the viewer uses.`;
+  return [persona, languageRule, SCREEN_CONTEXT_RULE].filter(Boolean).join('\n\n');
+};
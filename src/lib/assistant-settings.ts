@@ -0,0 +1,158 @@
+/**
+ * User-editable assistant configuration, persisted to localStorage. Nothing
+ * secret is compiled into the bundle; credentials only ever come from here.
+ */
+
+import { DEFAULT_PERSONA_ID, type PersonaId } from './assistant-persona';
+import type { SessionRecordingLayout } from './session-recorder';
+import type { SpeechEngineKind } from './text-to-speech';
+
+/**
+ * apiKey: a Gemini key stored on this device. tokenEndpoint: a backend that
+ * hands out short-lived tokens. proxy: the assistant server relays sessions.
+ */
+export type CredentialMode = 'apiKey' | 'tokenEndpoint' | 'proxy';
+
+/**
+ * toggle: press once to start and again to stop. hold: talk while the talk key
+ * is held, release to send. openMic: the mic stays open and local voice
+ * activity detection decides when a turn starts and ends.
+ */
+export type TalkMode = 'toggle' | 'hold' | 'openMic';
+
+export interface AssistantSettings {
+  credentialMode: CredentialMode;
+  /** Gemini API key, used when `credentialMode` is `apiKey`. */
+  apiKey: string;
+  /** URL that returns `{ token }` for a short-lived session, used when `credentialMode` is `tokenEndpoint`. */
+  tokenEndpoint: string;
+  /** Base URL of the assistant server, used when `credentialMode` is `proxy`. */
+  proxyUrl: string;
+  /** Random per-install id sent to the assistant server, which identifies the TV in its requests. */
+  deviceId: string;
+  /** Prebuilt Live API voice. Voice, language and persona apply from the next session. */
+  voiceName: string;
+  /** BCP-47 code the assistant replies in, or `auto` to follow the viewer. */
+  language: string;
+  personaId: PersonaId;
+  /** System prompt used when `personaId` is `custom`. */
+  customPersonaPrompt: string;
+  /** Applies from the next session, like the voice settings. */
+  talkMode: TalkMode;
+  /** `KeyboardEvent.key` of the remote button that opens the assistant listening, from any screen. */
+  talkKey: string;
+  /** Listen on-device for "Hey Atlas" while the assistant is closed. */
+  wakeWordEnabled: boolean;
+  /** 0 to 1; higher triggers more readily, at the cost of false wakes. */
+  wakeWordSensitivity: number;
+  /** `MediaDeviceInfo.deviceId` of the speakers the assistant and media play to; empty for the system default. */
+  outputDeviceId: string;
+  /** Recognise basic navigation commands on-device; the rest go to the model as text. */
+  localCommandsEnabled: boolean;
+  /** BCP-47 code transcripts are translated into, shown beside the original; empty for no translation. */
+  translationLanguage: string;
+  /** How transcripts are read aloud; see `SpeechEngineKind`. */
+  speechEngine: SpeechEngineKind;
+  /** Base URL of the server behind the `server` engine; empty for `DEFAULT_SPEECH_SERVER_URL`. */
+  speechServerUrl: string;
+  /** Voice id for `speechEngine`; empty for its default. */
+  speechVoiceId: string;
+  speechRate: number;
+  speechPitch: number;
+  /** Record both sides of each live session for QA, downloadable from Diagnostics. */
+  sessionRecordingEnabled: boolean;
+  sessionRecordingLayout: SessionRecordingLayout;
+}
+
+/** Remote buttons that can serve as the talk key, by `KeyboardEvent.key`. */
+export const talkKeys = [
+  { key: 'F2', label: 'F2' },
+  { key: 'BrowserSearch', label: 'Search / mic button' },
+  { key: 'ColorF0Red', label: 'Red button' },
+  { key: 'ContextMenu', label: 'Menu button' },
+];
+
+export const talkKeyLabel = (key: string) => talkKeys.find((option) => option.key === key)?.label ?? key;
+
+const STORAGE_KEY = 'atlas.assistant-settings';
+
+export const defaultAssistantSettings: AssistantSettings = {
+  credentialMode: 'apiKey',
+  apiKey: '',
+  tokenEndpoint: '',
+  proxyUrl: '',
+  deviceId: '',
+  voiceName: 'Orus',
+  language: 'auto',
+  personaId: DEFAULT_PERSONA_ID,
+  customPersonaPrompt: '',
+  talkMode: 'toggle',
+  talkKey: 'F2',
+  wakeWordEnabled: false,
+  wakeWordSensitivity: 0.5,
+  outputDeviceId: '',
+  localCommandsEnabled: false,
+  translationLanguage: '',
+  speechEngine: 'browser',
+  speechServerUrl: '',
+  speechVoiceId: '',
+  speechRate: 1,
+  speechPitch: 1,
+  sessionRecordingEnabled: false,
+  sessionRecordingLayout: 'stereo',
+};
+
+const generateDeviceId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+const listeners = new Set<() => void>();
+let cached: AssistantSettings | null = null;
+
+const load = (): AssistantSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...defaultAssistantSettings, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error('Failed to read assistant settings:', e);
+  }
+  return defaultAssistantSettings;
+};
+
+const save = (settings: AssistantSettings) => {
+  cached = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getAssistantSettings = (): AssistantSettings => {
+  if (!cached) {
+    const loaded = load();
+    if (loaded.deviceId) cached = loaded;
+    else save({ ...loaded, deviceId: generateDeviceId() });
+  }
+  return cached;
+};
+
+export const updateAssistantSettings = (patch: Partial<AssistantSettings>) => {
+  save({ ...getAssistantSettings(), ...patch });
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeAssistantSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isAssistantConfigured = (settings: AssistantSettings = getAssistantSettings()) => {
+  switch (settings.credentialMode) {
+    case 'apiKey':
+      return settings.apiKey.trim() !== '';
+    case 'tokenEndpoint':
+      return settings.tokenEndpoint.trim() !== '';
+    case 'proxy':
+      return settings.proxyUrl.trim() !== '';
+  }
+};
@@ -0,0 +1,35 @@
+export type AssistantErrorCode =
+  | 'not-configured'
+  | 'connection-failed'
+  | 'connection-lost'
+  | 'session-rejected'
+  | 'microphone-denied'
+  | 'microphone-unavailable';
+
+/** Why a session is being re-established rather than opened for the first time. */
+export interface ReconnectInfo {
+  reason: 'dropped' | 'go-away';
+  attempt: number;
+  /** Wait before this attempt; 0 when reconnecting straight away. */
+  delayMs: number;
+}
+
+/**
+ * What a voice provider is doing, emitted on every transition. The UI derives
+ * its visuals and any wording from this; providers never send display text.
+ */
+export type AssistantState =
+  | { type: 'idle' }
+  | { type: 'connecting'; reconnect?: ReconnectInfo }
+  | { type: 'connected'; resumed?: boolean }
+  | { type: 'listening' }
+  | { type: 'model-speaking' }
+  | { type: 'interrupted' }
+  | { type: 'error'; code: AssistantErrorCode; detail?: string };
+
+/** Maps a getUserMedia failure to an error state. */
+export const microphoneError = (err: unknown): AssistantState => ({
+  type: 'error',
+  code: err instanceof DOMException && err.name === 'NotAllowedError' ? 'microphone-denied' : 'microphone-unavailable',
+  detail: err instanceof Error ? err.message : undefined,
+});
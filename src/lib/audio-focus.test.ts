@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { registerMediaElement, requestAudioFocus } from './audio-focus';
+
+vi.mock('./assistant-settings', () => ({
+  getAssistantSettings: () => ({ outputDeviceId: '' }),
+  subscribeAssistantSettings: () => () => {},
+}));
+
+describe('registerMediaElement', () => {
+  it('ducks the element while the assistant holds focus and restores it after', () => {
+    const trailer = { volume: 0.8 } as HTMLMediaElement;
+    const unregister = registerMediaElement(trailer);
+    expect(trailer.volume).toBe(0.8);
+
+    const release = requestAudioFocus();
+    expect(trailer.volume).toBeCloseTo(0.16);
+    release();
+    expect(trailer.volume).toBeCloseTo(0.8);
+    unregister();
+  });
+
+  it('keeps ducking until every holder has released focus', () => {
+    const trailer = { volume: 1 } as HTMLMediaElement;
+    const unregister = registerMediaElement(trailer);
+    const releaseReply = requestAudioFocus();
+    const releaseSpeech = requestAudioFocus();
+
+    releaseReply();
+    releaseReply();
+    expect(trailer.volume).toBeCloseTo(0.2);
+    releaseSpeech();
+    expect(trailer.volume).toBe(1);
+    unregister();
+  });
+
+  it('restores to the volume the viewer last chose', () => {
+    const trailer = { volume: 1 } as HTMLMediaElement;
+    const unregister = registerMediaElement(trailer);
+    trailer.volume = 0.5;
+
+    const release = requestAudioFocus();
+    expect(trailer.volume).toBeCloseTo(0.1);
+    release();
+    expect(trailer.volume).toBe(0.5);
+    unregister();
+  });
+
+  it('leaves an unregistered element alone', () => {
+    const trailer = { volume: 1 } as HTMLMediaElement;
+    registerMediaElement(trailer)();
+    const release = requestAudioFocus();
+    expect(trailer.volume).toBe(1);
+    release();
+  });
+});
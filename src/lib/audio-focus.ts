@@ -0,0 +1,122 @@
+import { getAssistantSettings, subscribeAssistantSettings } from './assistant-settings';
+
+/**
+ * Central audio focus for the launcher. Everything that makes sound registers
+ * here: the assistant's reply output, read-aloud speech and media such as the
+ * featured trailers. While the assistant holds focus, media is ducked and restored
+ * afterwards, and every output follows the output device picked in Settings.
+ *
+ * assistant: takes focus while it plays and is never ducked. media: ducked
+ * while the assistant has focus.
+ */
+export type AudioFocusKind = 'assistant' | 'media';
+
+export interface AudioFocusTarget {
+  kind: AudioFocusKind;
+  /** 1 is the target's own volume; 0 is silent. */
+  setLevel(level: number): void;
+  /** Rejects where the device is gone or output selection is unsupported. */
+  setSinkId?(deviceId: string): Promise<void>;
+}
+
+/** Media volume while the assistant speaks, relative to its own. */
+const DUCK_LEVEL = 0.2;
+/** Time constant of the gain ramp for Web Audio targets, in seconds. */
+const RAMP_SECONDS = 0.08;
+
+// AudioContext.setSinkId is not in TypeScript's DOM library yet.
+type RoutableAudioContext = BaseAudioContext & { setSinkId?: (deviceId: string) => Promise<void> };
+
+const targets = new Set<AudioFocusTarget>();
+let focusHolders = 0;
+let appliedDeviceId: string | null = null;
+let unsubscribeSettings: (() => void) | null = null;
+
+const mediaLevel = () => (focusHolders > 0 ? DUCK_LEVEL : 1);
+
+const setMediaLevels = () => {
+  targets.forEach((target) => {
+    if (target.kind === 'media') target.setLevel(mediaLevel());
+  });
+};
+
+const applySink = (target: AudioFocusTarget, deviceId: string) => {
+  target.setSinkId?.(deviceId).catch((e) => console.warn('Could not switch audio output:', e));
+};
+
+const applyOutputDevice = () => {
+  const { outputDeviceId } = getAssistantSettings();
+  if (outputDeviceId === appliedDeviceId) return;
+  appliedDeviceId = outputDeviceId;
+  targets.forEach((target) => applySink(target, outputDeviceId));
+};
+
+/** Adds a sound source; returns a function that removes it again. */
+export const registerAudioTarget = (target: AudioFocusTarget) => {
+  if (!unsubscribeSettings) {
+    appliedDeviceId = getAssistantSettings().outputDeviceId;
+    unsubscribeSettings = subscribeAssistantSettings(applyOutputDevice);
+  }
+  targets.add(target);
+  if (target.kind === 'media') target.setLevel(mediaLevel());
+  // '' is the system default, which a new output already plays to.
+  if (appliedDeviceId) applySink(target, appliedDeviceId);
+
+  return () => {
+    targets.delete(target);
+  };
+};
+
+/** Registers a Web Audio output whose gain the manager may ramp. */
+export const registerAudioNode = (node: GainNode, kind: AudioFocusKind) => {
+  const context = node.context as RoutableAudioContext;
+  return registerAudioTarget({
+    kind,
+    setLevel: (level) => node.gain.setTargetAtTime(level, context.currentTime, RAMP_SECONDS),
+    setSinkId: context.setSinkId ? (deviceId) => context.setSinkId!(deviceId) : undefined,
+  });
+};
+
+/** Registers a `<video>` or `<audio>` element as media, ducking relative to its current volume. */
+export const registerMediaElement = (element: HTMLMediaElement) => {
+  let baseVolume = element.volume;
+  let level = 1;
+  return registerAudioTarget({
+    kind: 'media',
+    setLevel: (next) => {
+      // Pick up volume changes the viewer made before we touch it again.
+      if (level === 1) baseVolume = element.volume;
+      level = next;
+      element.volume = baseVolume * next;
+    },
+    setSinkId: 'setSinkId' in element ? (deviceId) => element.setSinkId(deviceId) : undefined,
+  });
+};
+
+/**
+ * Takes audio focus, ducking media until every holder has released it.
+ * The returned release function is safe to call more than once.
+ */
+export const requestAudioFocus = () => {
+  focusHolders++;
+  if (focusHolders === 1) setMediaLevels();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    focusHolders--;
+    if (focusHolders === 0) setMediaLevels();
+  };
+};
+
+/** Whether this browser can send audio to a device other than the default. */
+export const isOutputSelectionSupported = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+/** Speakers and headphones the launcher can play to; labels need mic permission to be filled in. */
+export const listOutputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'audiooutput' && device.deviceId !== 'default');
+};
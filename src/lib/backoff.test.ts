@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExponentialBackoff } from './backoff';
+
+const options = { initialDelayMs: 1000, maxDelayMs: 5000, maxAttempts: 4 };
+
+describe('ExponentialBackoff', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the ceiling each attempt up to the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const backoff = new ExponentialBackoff(options);
+    expect([backoff.next(), backoff.next(), backoff.next(), backoff.next()]).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('jitters between half the ceiling and the ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const backoff = new ExponentialBackoff(options);
+    expect([backoff.next(), backoff.next(), backoff.next()]).toEqual([500, 1000, 2000]);
+  });
+
+  it('gives up once attempts run out, until reset', () => {
+    const backoff = new ExponentialBackoff({ ...options, maxAttempts: 2 });
+    expect(backoff.next()).not.toBeNull();
+    expect(backoff.next()).not.toBeNull();
+    expect(backoff.next()).toBeNull();
+    expect(backoff.attempt).toBe(2);
+
+    backoff.reset();
+    expect(backoff.attempt).toBe(0);
+    expect(backoff.next()).toBeLessThanOrEqual(options.initialDelayMs);
+  });
+});
@@ -0,0 +1,29 @@
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Attempts allowed before giving up; counted since the last `reset()`. */
+  maxAttempts: number;
+}
+
+/** Exponential backoff with jitter, so many clients don't retry in lockstep. */
+export class ExponentialBackoff {
+  private attempts = 0;
+
+  constructor(private options: BackoffOptions) {}
+
+  get attempt(): number {
+    return this.attempts;
+  }
+
+  /** Delay before the next attempt, or null once attempts are exhausted. */
+  next(): number | null {
+    if (this.attempts >= this.options.maxAttempts) return null;
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.initialDelayMs * 2 ** this.attempts);
+    this.attempts++;
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+  }
+
+  reset() {
+    this.attempts = 0;
+  }
+}
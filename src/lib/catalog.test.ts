@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { describeCatalogQuery, queryCatalog } from './catalog';
+import type { ContentItem } from './launcher-data';
+
+const item = (id: number, title: string, year?: string, genre?: string, rating?: string): ContentItem => ({
+  id,
+  title,
+  image: '',
+  year,
+  genre,
+  rating,
+});
+
+const items = [
+  item(1, 'The Dark Knight', '2008', 'Action', '9.0'),
+  item(2, 'Iron Man', '2008', 'Action', '7.9'),
+  item(3, 'Up', '2009', 'Animation', '8.3'),
+  item(4, 'Spider-Man: Into the Spider-Verse', '2018', 'Animation', '8.4'),
+  item(5, 'Untitled', undefined, undefined, undefined),
+];
+
+const titles = (found: ContentItem[]) => found.map((entry) => entry.title);
+
+describe('queryCatalog', () => {
+  it('returns everything, best rated first, for an empty query', () => {
+    expect(titles(queryCatalog({}, items))).toEqual([
+      'The Dark Knight',
+      'Spider-Man: Into the Spider-Verse',
+      'Up',
+      'Iron Man',
+      'Untitled',
+    ]);
+  });
+
+  it('matches titles ignoring case and punctuation', () => {
+    expect(titles(queryCatalog({ title: 'spiderman' }, items))).toEqual(['Spider-Man: Into the Spider-Verse']);
+  });
+
+  it('combines filters with inclusive ranges', () => {
+    expect(titles(queryCatalog({ genre: 'action', yearFrom: 2008, yearTo: 2008, minRating: 7.9 }, items))).toEqual([
+      'The Dark Knight',
+      'Iron Man',
+    ]);
+    expect(titles(queryCatalog({ yearFrom: 2009, maxRating: 8.3 }, items))).toEqual(['Up']);
+  });
+
+  it('leaves out items missing a field a range asks about', () => {
+    expect(titles(queryCatalog({ yearTo: 3000 }, items))).not.toContain('Untitled');
+  });
+
+  it('applies the limit after sorting', () => {
+    expect(titles(queryCatalog({ genre: 'Animation', limit: 1 }, items))).toEqual(['Spider-Man: Into the Spider-Verse']);
+  });
+});
+
+describe('describeCatalogQuery', () => {
+  it('names the genre or title and the ranges', () => {
+    expect(describeCatalogQuery({ genre: 'Action', yearFrom: 2008, yearTo: 2008 })).toBe('Action from 2008');
+    expect(describeCatalogQuery({ minRating: 8 })).toBe('Titles rated 8+');
+    expect(describeCatalogQuery({ title: 'man', yearFrom: 2000, yearTo: 2010 })).toBe('"man" from 2000–2010');
+    expect(describeCatalogQuery({ genre: 'Drama', title: 'night', yearTo: 1999 })).toBe('Drama up to 1999 matching "night"');
+  });
+});
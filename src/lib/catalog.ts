@@ -0,0 +1,58 @@
+import { matchesName } from './launcher-commands';
+import { recommendedMovies, type ContentItem } from './launcher-data';
+
+/**
+ * Local catalog search over the launcher's content. Every field is optional
+ * and they combine with AND; ranges are inclusive.
+ */
+export interface CatalogQuery {
+  /** Substring of the title, ignoring case and punctuation. */
+  title?: string;
+  genre?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  minRating?: number;
+  maxRating?: number;
+  limit?: number;
+}
+
+export const catalog: ContentItem[] = recommendedMovies;
+
+export const catalogGenres = [...new Set(catalog.map((item) => item.genre).filter((genre): genre is string => !!genre))];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const inRange = (value: string | undefined, min?: number, max?: number) => {
+  if (min === undefined && max === undefined) return true;
+  const number = Number(value);
+  if (value === undefined || Number.isNaN(number)) return false;
+  return (min === undefined || number >= min) && (max === undefined || number <= max);
+};
+
+/** Matching items, best rated first. */
+export const queryCatalog = (query: CatalogQuery, items: ContentItem[] = catalog): ContentItem[] => {
+  const title = query.title ? normalize(query.title) : '';
+  const matches = items.filter(
+    (item) =>
+      (!title || normalize(item.title).includes(title)) &&
+      (!query.genre || (item.genre !== undefined && matchesName(item.genre, query.genre))) &&
+      inRange(item.year, query.yearFrom, query.yearTo) &&
+      inRange(item.rating, query.minRating, query.maxRating),
+  );
+  matches.sort((a, b) => Number(b.rating ?? 0) - Number(a.rating ?? 0));
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+};
+
+/** A short heading for a query, e.g. "Action from 2008" or "Rated 8+". */
+export const describeCatalogQuery = ({ title, genre, yearFrom, yearTo, minRating, maxRating }: CatalogQuery) => {
+  const parts = [genre ?? (title ? `"${title}"` : 'Titles')];
+  if (yearFrom !== undefined && yearFrom === yearTo) parts.push(`from ${yearFrom}`);
+  else if (yearFrom !== undefined && yearTo !== undefined) parts.push(`from ${yearFrom}–${yearTo}`);
+  else if (yearFrom !== undefined) parts.push(`since ${yearFrom}`);
+  else if (yearTo !== undefined) parts.push(`up to ${yearTo}`);
+  if (minRating !== undefined && maxRating !== undefined) parts.push(`rated ${minRating}–${maxRating}`);
+  else if (minRating !== undefined) parts.push(`rated ${minRating}+`);
+  else if (maxRating !== undefined) parts.push(`rated up to ${maxRating}`);
+  if (genre && title) parts.push(`matching "${title}"`);
+  return parts.join(' ');
+};
@@ -0,0 +1,100 @@
+/**
+ * Past assistant conversations, kept in IndexedDB per profile so closing the
+ * overlay no longer loses them. Dates survive as-is through structured clone.
+ */
+
+import type { CompletedTurn } from './turn-transcript';
+
+export interface StoredConversation {
+  id: string;
+  profileId: string;
+  startedAt: Date;
+  updatedAt: Date;
+  turns: CompletedTurn[];
+}
+
+const DB_NAME = 'atlas-history';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('profileId', 'profileId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const transaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([run(tx.objectStore(STORE)), done]);
+  if (mode === 'readwrite') listeners.forEach((listener) => listener());
+  return result;
+};
+
+export const createConversationId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+/** The profile's conversations, most recently active first. */
+export const listConversations = (profileId: string): Promise<StoredConversation[]> =>
+  transaction('readonly', async (store) => {
+    const conversations = await promisify<StoredConversation[]>(store.index('profileId').getAll(profileId));
+    return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  });
+
+export const getConversation = (id: string): Promise<StoredConversation | undefined> =>
+  transaction('readonly', (store) => promisify<StoredConversation | undefined>(store.get(id)));
+
+/** Adds a finished turn, creating the conversation on its first turn. */
+export const appendConversationTurn = (id: string, profileId: string, turn: CompletedTurn): Promise<void> =>
+  transaction('readwrite', async (store) => {
+    const existing = await promisify<StoredConversation | undefined>(store.get(id));
+    const conversation = existing ?? { id, profileId, startedAt: turn.startedAt, updatedAt: turn.startedAt, turns: [] };
+    await promisify(store.put({ ...conversation, updatedAt: new Date(), turns: [...conversation.turns, turn] }));
+  });
+
+export const deleteConversation = (id: string): Promise<void> =>
+  transaction('readwrite', async (store) => {
+    await promisify(store.delete(id));
+  });
+
+/** Case-insensitive match against anything either side said. */
+export const conversationMatches = (conversation: StoredConversation, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return conversation.turns.some(
+    (turn) => turn.userText.toLowerCase().includes(needle) || turn.modelText.toLowerCase().includes(needle),
+  );
+};
+
+export const subscribeConversationHistory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
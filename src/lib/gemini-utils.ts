@@ -23,20 +23,22 @@ function decode(base64: string): Uint8Array {
   return bytes;
 }
 
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // convert float32 -1 to 1 to int16 -32768 to 32767
-    int16[i] = data[i] * 32768;
-  }
-
+function createPcmBlob(data: Int16Array, sampleRate: number): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
+function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const dataFloat32 = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    dataFloat32[i] = dataInt16[i] / 32768.0;
+  }
+  return dataFloat32;
+}
+
 async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -70,4 +72,4 @@ async function decodeAudioData(
   return buffer;
 }
 
-export { createBlob, decode, decodeAudioData, encode };
\ No newline at end of file
+export { createPcmBlob, decode, decodeAudioData, encode, pcm16ToFloat32 };
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * Language identification and translation for transcripts. The default uses
+ * the browser's on-device LanguageDetector and Translator APIs; another backend
+ * can be plugged in with `setLanguageTools`.
+ */
+export interface LanguageTools {
+  /** BCP-47 code of the text's language, or null if it can't be told. */
+  detect(text: string): Promise<string | null>;
+  /** The text in `targetLanguage`, or null if this pair can't be translated here. */
+  translate(text: string, sourceLanguage: string, targetLanguage: string): Promise<string | null>;
+}
+
+// Neither API is in TypeScript's DOM library yet.
+type Availability = 'unavailable' | 'downloadable' | 'downloading' | 'available';
+
+interface BrowserLanguageDetector {
+  detect(text: string): Promise<{ detectedLanguage: string; confidence: number }[]>;
+}
+
+interface BrowserTranslator {
+  translate(text: string): Promise<string>;
+}
+
+interface BrowserAiScope {
+  LanguageDetector?: {
+    availability(): Promise<Availability>;
+    create(): Promise<BrowserLanguageDetector>;
+  };
+  Translator?: {
+    availability(options: { sourceLanguage: string; targetLanguage: string }): Promise<Availability>;
+    create(options: { sourceLanguage: string; targetLanguage: string }): Promise<BrowserTranslator>;
+  };
+}
+
+// Short utterances make for shaky guesses; below this the language is left unknown.
+const MIN_CONFIDENCE = 0.5;
+
+/** `pt-BR` and `pt` are the same language as far as translation is concerned. */
+export const baseLanguage = (code: string) => code.split('-')[0].toLowerCase();
+
+const browserScope = () => (typeof self === 'undefined' ? {} : (self as unknown as BrowserAiScope));
+
+class BrowserLanguageTools implements LanguageTools {
+  private detector: Promise<BrowserLanguageDetector | null> | null = null;
+  private translators = new Map<string, Promise<BrowserTranslator | null>>();
+
+  private getDetector() {
+    this.detector ??= (async () => {
+      const api = browserScope().LanguageDetector;
+      if (!api || (await api.availability()) === 'unavailable') return null;
+      return api.create();
+    })().catch((e) => {
+      console.warn('Language detection unavailable:', e);
+      return null;
+    });
+    return this.detector;
+  }
+
+  private getTranslator(sourceLanguage: string, targetLanguage: string) {
+    const key = `${sourceLanguage}>${targetLanguage}`;
+    let translator = this.translators.get(key);
+    if (!translator) {
+      translator = (async () => {
+        const api = browserScope().Translator;
+        const pair = { sourceLanguage, targetLanguage };
+        if (!api || (await api.availability(pair)) === 'unavailable') return null;
+        return api.create(pair);
+      })().catch((e) => {
+        console.warn(`Translation from ${sourceLanguage} to ${targetLanguage} unavailable:`, e);
+        return null;
+      });
+      this.translators.set(key, translator);
+    }
+    return translator;
+  }
+
+  async detect(text: string) {
+    const detector = await this.getDetector();
+    const [best] = detector ? await detector.detect(text) : [];
+    return best && best.detectedLanguage !== 'und' && best.confidence >= MIN_CONFIDENCE ? best.detectedLanguage : null;
+  }
+
+  async translate(text: string, sourceLanguage: string, targetLanguage: string) {
+    const translator = await this.getTranslator(baseLanguage(sourceLanguage), baseLanguage(targetLanguage));
+    return translator ? translator.translate(text) : null;
+  }
+}
+
+let tools: LanguageTools = new BrowserLanguageTools();
+const translations = new Map<string, Promise<string | null>>();
+
+export const setLanguageTools = (next: LanguageTools) => {
+  tools = next;
+  translations.clear();
+};
+
+/** Never rejects: a failed guess is just an unknown language. */
+export const detectLanguage = async (text: string): Promise<string | null> => {
+  if (!text.trim()) return null;
+  try {
+    return await tools.detect(text);
+  } catch (e) {
+    console.warn('Language detection failed:', e);
+    return null;
+  }
+};
+
+/**
+ * `text` in `targetLanguage`, detecting the source when it isn't given. Text
+ * already in the target comes back unchanged; null means it can't be
+ * translated here. Results are cached, since transcripts re-render often.
+ */
+export const translateText = (text: string, targetLanguage: string, sourceLanguage?: string): Promise<string | null> => {
+  const key = `${targetLanguage}\n${sourceLanguage ?? ''}\n${text}`;
+  let translation = translations.get(key);
+  if (!translation) {
+    translation = (async () => {
+      const source = sourceLanguage ?? (await detectLanguage(text));
+      if (!source) return null;
+      if (baseLanguage(source) === baseLanguage(targetLanguage)) return text;
+      return tools.translate(text, source, targetLanguage);
+    })();
+    // Let a later render try again rather than caching the failure.
+    translation.catch(() => translations.delete(key));
+    translations.set(key, translation);
+  }
+  return translation;
+};
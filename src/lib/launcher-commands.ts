@@ -0,0 +1,54 @@
+import type { ContentItem } from './launcher-data';
+
+/**
+ * Typed command bus between the assistant and the launcher UI. Components
+ * subscribe to the commands they can carry out; dispatchers learn whether
+ * anyone did.
+ */
+export type LauncherCommand =
+  | { type: 'openApp'; appName: string }
+  | { type: 'switchTab'; tabId: string }
+  | { type: 'showHeroSlide'; index: number }
+  | { type: 'focusContent'; title: string }
+  | { type: 'addToWatchlist'; title: string }
+  | { type: 'showSearchResults'; heading: string; items: ContentItem[] };
+
+export type LauncherCommandType = LauncherCommand['type'];
+
+export type LauncherCommandOf<T extends LauncherCommandType> = Extract<LauncherCommand, { type: T }>;
+
+/** Returns true when the command was carried out by this subscriber. */
+export type LauncherCommandHandler<T extends LauncherCommandType> = (
+  command: LauncherCommandOf<T>,
+) => boolean | void;
+
+const handlers = new Map<LauncherCommandType, Set<(command: LauncherCommand) => boolean | void>>();
+
+export const subscribeLauncherCommand = <T extends LauncherCommandType>(
+  type: T,
+  handler: LauncherCommandHandler<T>,
+) => {
+  // Commands are only ever delivered to the set for their own `type`.
+  const wrapped = (command: LauncherCommand) => handler(command as LauncherCommandOf<T>);
+  const set = handlers.get(type) ?? new Set();
+  set.add(wrapped);
+  handlers.set(type, set);
+  return () => {
+    set.delete(wrapped);
+  };
+};
+
+/** Delivers `command` to every subscriber; true if at least one handled it. */
+export const dispatchLauncherCommand = (command: LauncherCommand): boolean => {
+  let handled = false;
+  handlers.get(command.type)?.forEach((handler) => {
+    if (handler(command)) handled = true;
+  });
+  return handled;
+};
+
+/** Loose name match so "youtube", "YouTube" and "you tube" all find the same entry. */
+export const matchesName = (candidate: string, query: string) => {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return normalize(candidate) === normalize(query);
+};
@@ -0,0 +1,172 @@
+/**
+ * Static launcher content. Components render it; the assistant's tools and
+ * commands refer to the same entries by name.
+ */
+
+export interface LauncherApp {
+  id: number;
+  name: string;
+  icon: string;
+  url: string;
+  gradient: string;
+}
+
+export interface LauncherTab {
+  id: string;
+  label: string;
+  active: boolean;
+  path?: string;
+}
+
+export interface HeroSlide {
+  id: number;
+  title: string;
+  description: string;
+  image: string;
+  category: string;
+  rating: string;
+  /** Preview clip that "Play Now" plays over the slide; slides without one only show the image. */
+  trailer?: string;
+}
+
+export interface ContentItem {
+  id: number;
+  title: string;
+  image: string;
+  year?: string;
+  genre?: string;
+  rating?: string;
+}
+
+export const launcherApps: LauncherApp[] = [
+  {
+    id: 1,
+    name: "Netflix",
+    icon: "./images/apps/netflix.png",
+    url: "https://netflix.com",
+    gradient: "from-red-600 to-red-500"
+  },
+  {
+    id: 2,
+    name: "Plex",
+    icon: "./images/apps/plex.png",
+    url: "https://plex.tv",
+    gradient: "from-yellow-500 to-orange-500"
+  },
+  {
+    id: 3,
+    name: "YouTube",
+    icon: "./images/apps/youtube.png",
+    url: "https://youtube.com",
+    gradient: "from-red-500 to-red-600"
+  },
+  {
+    id: 4,
+    name: "Disney+",
+    icon: "./images/apps/disney+.png",
+    url: "https://disneyplus.com",
+    gradient: "from-blue-600 to-blue-700"
+  },
+  {
+    id: 5,
+    name: "Tubi",
+    icon: "./images/apps/tubi.png",
+    url: "https://tubi.tv",
+    gradient: "from-purple-600 to-purple-700"
+  },
+  {
+    id: 6,
+    name: "HBO Max",
+    icon: "./images/apps/hbo max.png",
+    url: "https://max.com",
+    gradient: "from-purple-800 to-purple-900"
+  }
+];
+
+export const launcherTabs: LauncherTab[] = [
+  { id: "home", label: "Home", active: true },
+  { id: "library", label: "Library", active: false },
+  { id: "apps", label: "Apps", active: false },
+  { id: "history", label: "History", active: false, path: "/history" },
+  { id: "settings", label: "Settings", active: false, path: "/settings" },
+];
+
+export const heroSlides: HeroSlide[] = [
+  {
+    id: 1,
+    title: "The Last of Us",
+    description: "A gripping post-apocalyptic drama series",
+    image: "/lovable-uploads/c9bb5f22-f461-48d3-92d0-377bc6e49aa1.png",
+    category: "Series",
+    rating: "9.0"
+  },
+  {
+    id: 2,
+    title: "Featured Movie",
+    description: "Discover amazing content with AI assistance",
+    image: "https://images.unsplash.com/photo-1489599083698-2aa49c3b3100?w=1200&h=400&fit=crop",
+    category: "Movie",
+    rating: "8.5",
+    trailer: "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/Sintel.mp4"
+  },
+  {
+    id: 3,
+    title: "Popular Shows",
+    description: "Trending content you might enjoy",
+    image: "https://images.unsplash.com/photo-1598387993441-a364f854c3e1?w=1200&h=400&fit=crop",
+    category: "Collection",
+    rating: "8.8",
+    trailer: "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/TearsOfSteel.mp4"
+  }
+];
+
+export const recommendedMovies: ContentItem[] = [
+  {
+    id: 1,
+    title: "Friends",
+    image: "https://images.unsplash.com/photo-1489599083698-2aa49c3b3100?w=300&h=400&fit=crop",
+    year: "1994",
+    genre: "Comedy",
+    rating: "8.9"
+  },
+  {
+    id: 2,
+    title: "Iron Man",
+    image: "https://images.unsplash.com/photo-1635805737707-575885ab0820?w=300&h=400&fit=crop",
+    year: "2008",
+    genre: "Action",
+    rating: "7.9"
+  },
+  {
+    id: 3,
+    title: "Spider-Man",
+    image: "https://images.unsplash.com/photo-1626278664285-f796b9ee7806?w=300&h=400&fit=crop",
+    year: "2002",
+    genre: "Action",
+    rating: "7.3"
+  },
+  {
+    id: 4,
+    title: "The Dark Knight",
+    image: "https://images.unsplash.com/photo-1509347528160-9a9e33742cdb?w=300&h=400&fit=crop",
+    year: "2008",
+    genre: "Drama",
+    rating: "9.0"
+  },
+  {
+    id: 5,
+    title: "Avengers",
+    image: "https://images.unsplash.com/photo-1635805737707-575885ab0820?w=300&h=400&fit=crop",
+    year: "2012",
+    genre: "Action",
+    rating: "8.0"
+  },
+  {
+    id: 6,
+    title: "Inception",
+    image: "https://images.unsplash.com/photo-1440404653325-ab127d49abc1?w=300&h=400&fit=crop",
+    year: "2010",
+    genre: "Sci-Fi",
+    rating: "8.8"
+  }
+];
@@ -0,0 +1,174 @@
+import { Type, type FunctionDeclaration } from '@google/genai';
+import { dispatchLauncherCommand, matchesName, type LauncherCommand } from './launcher-commands';
+import { heroSlides, launcherApps, launcherTabs } from './launcher-data';
+import { catalogGenres, describeCatalogQuery, queryCatalog, type CatalogQuery } from './catalog';
+import { navigationKeyLabels, type NavigationKey } from './voice-commands';
+import type { TurnAction } from './turn-transcript';
+
+/** Function declarations that let the live model drive the launcher. */
+export const launcherToolDeclarations: FunctionDeclaration[] = [
+  {
+    name: 'open_app',
+    description: 'Opens one of the streaming apps installed on the launcher. The viewer may be asked to confirm before it opens.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        app: { type: Type.STRING, enum: launcherApps.map((app) => app.name) },
+      },
+      required: ['app'],
+    },
+  },
+  {
+    name: 'switch_tab',
+    description: 'Switches the top navigation to another section of the launcher.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        tab: { type: Type.STRING, enum: launcherTabs.map((tab) => tab.id) },
+      },
+      required: ['tab'],
+    },
+  },
+  {
+    name: 'show_featured',
+    description: 'Moves the featured carousel to a slide, by its title or 1-based position.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING, enum: heroSlides.map((slide) => slide.title) },
+        position: { type: Type.INTEGER, description: `1 to ${heroSlides.length}` },
+      },
+    },
+  },
+  {
+    name: 'focus_title',
+    description: 'Moves focus to a movie or show in the content rows so the user can see it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+      },
+      required: ['title'],
+    },
+  },
+  {
+    name: 'search_catalog',
+    description:
+      'Searches the movies and shows on the launcher, e.g. "action movies from 2008", and shows the matches ' +
+      'as a row on screen. Returns the matches, best rated first.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING, description: 'Part of the title' },
+        genre: { type: Type.STRING, enum: catalogGenres },
+        year_from: { type: Type.INTEGER },
+        year_to: { type: Type.INTEGER },
+        min_rating: { type: Type.NUMBER, description: 'Out of 10' },
+        max_rating: { type: Type.NUMBER, description: 'Out of 10' },
+        heading: { type: Type.STRING, description: "The viewer's request in a few words, shown as the row title" },
+      },
+    },
+  },
+  {
+    name: 'add_to_watchlist',
+    description: "Adds a movie or show to the user's watchlist.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+      },
+      required: ['title'],
+    },
+  },
+];
+
+const toCommand = (name: string, args: Record<string, unknown>): LauncherCommand | string => {
+  switch (name) {
+    case 'open_app':
+      return { type: 'openApp', appName: String(args.app ?? '') };
+    case 'switch_tab':
+      return { type: 'switchTab', tabId: String(args.tab ?? '') };
+    case 'show_featured': {
+      const byTitle = heroSlides.findIndex((slide) => matchesName(slide.title, String(args.title ?? '')));
+      const index = byTitle >= 0 ? byTitle : Number(args.position) - 1;
+      if (!(index >= 0 && index < heroSlides.length)) return 'No such featured slide';
+      return { type: 'showHeroSlide', index };
+    }
+    case 'focus_title':
+      return { type: 'focusContent', title: String(args.title ?? '') };
+    case 'add_to_watchlist':
+      return { type: 'addToWatchlist', title: String(args.title ?? '') };
+    default:
+      return `Unknown function ${name}`;
+  }
+};
+
+const optionalNumber = (value: unknown) => (value === undefined || value === null ? undefined : Number(value));
+
+/** Answers the query and puts the matches on screen; the model gets them either way. */
+const searchCatalog = (args: Record<string, unknown>): Record<string, unknown> => {
+  const query: CatalogQuery = {
+    title: args.title ? String(args.title) : undefined,
+    genre: args.genre ? String(args.genre) : undefined,
+    yearFrom: optionalNumber(args.year_from),
+    yearTo: optionalNumber(args.year_to),
+    minRating: optionalNumber(args.min_rating),
+    maxRating: optionalNumber(args.max_rating),
+  };
+  const items = queryCatalog(query);
+  const shown =
+    items.length > 0 &&
+    dispatchLauncherCommand({
+      type: 'showSearchResults',
+      heading: args.heading ? String(args.heading) : describeCatalogQuery(query),
+      items,
+    });
+
+  return {
+    results: items.map(({ title, year, genre, rating }) => ({ title, year, genre, rating })),
+    shownOnScreen: shown,
+  };
+};
+
+/**
+ * Runs a model function call against the launcher and returns the payload
+ * for its function response.
+ */
+export const executeLauncherTool = (
+  name: string,
+  args: Record<string, unknown> = {},
+): Record<string, unknown> => {
+  if (name === 'search_catalog') return searchCatalog(args);
+
+  const command = toCommand(name, args);
+  if (typeof command === 'string') return { error: command };
+
+  return dispatchLauncherCommand(command)
+    ? { result: 'ok' }
+    : { error: 'Nothing on screen matched that request' };
+};
+
+/** One-line summary of a tool call for the conversation history. */
+export const describeTurnAction = ({ name, args, response }: TurnAction): string => {
+  const summary = (() => {
+    switch (name) {
+      case 'open_app':
+        return `Opened ${args.app}`;
+      case 'switch_tab':
+        return `Went to ${args.tab}`;
+      case 'show_featured':
+        return `Showed featured ${args.title ?? `slide ${args.position}`}`;
+      case 'focus_title':
+        return `Showed ${args.title}`;
+      case 'add_to_watchlist':
+        return `Added ${args.title} to watchlist`;
+      case 'search_catalog':
+        return `Searched for ${args.heading ?? 'titles'}`;
+      case 'press_key':
+        return `Pressed ${navigationKeyLabels[args.key as NavigationKey] ?? args.key}`;
+      default:
+        return `Called ${name}`;
+    }
+  })();
+  return 'error' in response ? `${summary} (failed)` : summary;
+};
@@ -0,0 +1,155 @@
+import { Blob } from '@google/genai';
+import { registerAudioNode, requestAudioFocus } from './audio-focus';
+import { createPcmBlob, decode, pcm16ToFloat32 } from './gemini-utils';
+import { MicCapture } from './mic-capture';
+import { Resampler } from './resampler';
+
+export interface LiveAudioRates {
+  /** Rate the provider expects microphone PCM at. */
+  inputSampleRate: number;
+  /** Rate the provider sends reply PCM at. */
+  outputSampleRate: number;
+}
+
+/**
+ * Microphone capture and gapless PCM playback shared by the voice assistant
+ * providers. Providers own the transport; this class owns the audio graph.
+ *
+ * Both contexts run at whatever rate the device prefers (many ignore or reject
+ * a requested rate), and audio is resampled to and from the provider's rates.
+ * For capture alone, use `MicCapture`.
+ */
+export class LiveAudioIO {
+  readonly outputAudioContext: AudioContext;
+  readonly outputNode: GainNode;
+  private capture: MicCapture;
+  private nextStartTime = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+  private playbackResampler: Resampler;
+  private unregisterOutput: () => void;
+  // Held from the first queued reply chunk until playback ends or is cut off, so other media ducks.
+  private releaseFocus: (() => void) | null = null;
+  private closed = false;
+
+  /** Fires when the last scheduled reply chunk finishes playing (not on interrupt). */
+  public onPlaybackEnded?: () => void;
+
+  constructor(private rates: LiveAudioRates) {
+    const AudioContextCtor = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+
+    this.capture = new MicCapture(rates.inputSampleRate);
+    this.outputAudioContext = new AudioContextCtor();
+    this.playbackResampler = new Resampler(rates.outputSampleRate, this.outputAudioContext.sampleRate);
+    this.outputNode = this.outputAudioContext.createGain();
+
+    this.outputNode.connect(this.outputAudioContext.destination);
+    this.unregisterOutput = registerAudioNode(this.outputNode, 'assistant');
+  }
+
+  get inputAudioContext(): AudioContext {
+    return this.capture.audioContext;
+  }
+
+  get inputNode(): GainNode {
+    return this.capture.inputNode;
+  }
+
+  private endPlaybackFocus() {
+    this.releaseFocus?.();
+    this.releaseFocus = null;
+  }
+
+  async resume(): Promise<void> {
+    await this.capture.resume();
+    await this.outputAudioContext.resume();
+  }
+
+  /**
+   * Opens the microphone and calls `onChunk` with ~100 ms PCM frames at the provider's input rate,
+   * both raw and as a ready-to-send blob, until `stopCapture` is called. Encoding runs in an
+   * AudioWorklet where available. Rejects if microphone access is denied.
+   */
+  startCapture(onChunk: (blob: Blob, frame: Int16Array) => void): Promise<void> {
+    return this.capture.start((frame) => onChunk(createPcmBlob(frame, this.rates.inputSampleRate), frame));
+  }
+
+  stopCapture(): void {
+    this.capture.stop();
+  }
+
+  /**
+   * Schedules a base64 PCM chunk at the provider's output rate right after
+   * anything already queued, resampled to the output device's rate.
+   */
+  async play(base64Pcm: string): Promise<AudioBuffer> {
+    this.nextStartTime = Math.max(
+      this.nextStartTime,
+      this.outputAudioContext.currentTime,
+    );
+
+    const samples = this.playbackResampler.process(pcm16ToFloat32(decode(base64Pcm)));
+    const audioBuffer = this.outputAudioContext.createBuffer(
+      1,
+      Math.max(1, samples.length),
+      this.outputAudioContext.sampleRate,
+    );
+    audioBuffer.copyToChannel(samples, 0);
+
+    const source = this.outputAudioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(this.outputNode);
+    source.addEventListener('ended', () => {
+      if (this.sources.delete(source) && this.sources.size === 0) {
+        this.endPlaybackFocus();
+        this.onPlaybackEnded?.();
+      }
+    });
+
+    this.releaseFocus ??= requestAudioFocus();
+    source.start(this.nextStartTime);
+    this.nextStartTime = this.nextStartTime + audioBuffer.duration;
+    this.sources.add(source);
+
+    return audioBuffer;
+  }
+
+  /** Stops everything that is playing or scheduled. */
+  interruptPlayback(): void {
+    for (const source of this.sources.values()) {
+      source.stop();
+      this.sources.delete(source);
+    }
+    this.nextStartTime = 0;
+    this.playbackResampler.reset();
+    this.endPlaybackFocus();
+  }
+
+  setMuted(muted: boolean): void {
+    this.outputNode.gain.value = muted ? 0 : 1;
+  }
+
+  /** How long until everything scheduled so far has played, in milliseconds. */
+  get queuedMs(): number {
+    return Math.max(0, this.nextStartTime - this.outputAudioContext.currentTime) * 1000;
+  }
+
+  /** How long the output has had nothing left to play, or 0 while audio is queued. */
+  get starvedMs(): number {
+    if (this.nextStartTime === 0) return 0;
+    return Math.max(0, this.outputAudioContext.currentTime - this.nextStartTime) * 1000;
+  }
+
+  isPlaying(): boolean {
+    return this.sources.size > 0;
+  }
+
+  /** Releases the mic and both contexts. Safe to call more than once. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.capture.close();
+    this.interruptPlayback();
+    this.unregisterOutput();
+    this.outputAudioContext.close().catch((err) => console.warn('Failed to close the playback context:', err));
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Mel-frequency cepstral coefficients for 16 kHz mono audio: 25 ms frames
+ * every 10 ms, 26 mel bands, 12 coefficients (c0 dropped in favour of a
+ * separate frame energy). Small and dependency-free, for the wake-word spotter.
+ */
+export const MFCC_SAMPLE_RATE = 16000;
+export const MFCC_HOP_MS = 10;
+
+const FRAME_SIZE = 400;
+const HOP_SIZE = (MFCC_SAMPLE_RATE * MFCC_HOP_MS) / 1000;
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const COEFFICIENTS = 12;
+const PRE_EMPHASIS = 0.97;
+
+export interface FeatureFrame {
+  mfcc: Float32Array;
+  /** Frame level in dBFS, used to tell speech from silence. */
+  energyDb: number;
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+const hamming = Float32Array.from({ length: FRAME_SIZE }, (_, i) => 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+
+/** Triangular filters as [startBin, weights] pairs over the power spectrum. */
+const melFilters = (() => {
+  const low = hzToMel(64);
+  const high = hzToMel(7600);
+  const bin = (mel: number) => Math.floor(((FFT_SIZE + 1) * melToHz(mel)) / MFCC_SAMPLE_RATE);
+  const points = Array.from({ length: MEL_BANDS + 2 }, (_, i) => bin(low + ((high - low) * i) / (MEL_BANDS + 1)));
+
+  return Array.from({ length: MEL_BANDS }, (_, m) => {
+    const [left, center, right] = [points[m], points[m + 1], points[m + 2]];
+    const weights = new Float32Array(right - left + 1);
+    for (let k = left; k <= right; k++) {
+      weights[k - left] = k <= center
+        ? (k - left) / Math.max(1, center - left)
+        : (right - k) / Math.max(1, right - center);
+    }
+    return { start: left, weights };
+  });
+})();
+
+const dct = Array.from({ length: COEFFICIENTS }, (_, c) =>
+  Float32Array.from({ length: MEL_BANDS }, (_, m) => Math.cos((Math.PI * (c + 1) * (m + 0.5)) / MEL_BANDS)),
+);
+
+/** In-place iterative radix-2 FFT. */
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+const analyzeFrame = (frame: Float32Array): FeatureFrame => {
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  let energy = 0;
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const sample = frame[i] - (i > 0 ? PRE_EMPHASIS * frame[i - 1] : 0);
+    re[i] = sample * hamming[i];
+    energy += frame[i] * frame[i];
+  }
+  fft(re, im);
+
+  const logMel = new Float32Array(MEL_BANDS);
+  melFilters.forEach(({ start, weights }, m) => {
+    let sum = 0;
+    for (let k = 0; k < weights.length; k++) {
+      const bin = start + k;
+      sum += weights[k] * (re[bin] * re[bin] + im[bin] * im[bin]);
+    }
+    logMel[m] = Math.log(sum + 1e-10);
+  });
+
+  const mfcc = new Float32Array(COEFFICIENTS);
+  for (let c = 0; c < COEFFICIENTS; c++) {
+    let sum = 0;
+    for (let m = 0; m < MEL_BANDS; m++) sum += dct[c][m] * logMel[m];
+    mfcc[c] = sum;
+  }
+
+  return { mfcc, energyDb: 10 * Math.log10(energy / FRAME_SIZE + 1e-10) };
+};
+
+/** Turns a stream of 16 kHz samples into feature frames, however the input is chunked. */
+export class MfccExtractor {
+  private buffer = new Float32Array(0);
+
+  push(samples: Float32Array): FeatureFrame[] {
+    const merged = new Float32Array(this.buffer.length + samples.length);
+    merged.set(this.buffer);
+    merged.set(samples, this.buffer.length);
+
+    const frames: FeatureFrame[] = [];
+    let offset = 0;
+    for (; offset + FRAME_SIZE <= merged.length; offset += HOP_SIZE) {
+      frames.push(analyzeFrame(merged.subarray(offset, offset + FRAME_SIZE)));
+    }
+    this.buffer = merged.slice(offset);
+    return frames;
+  }
+
+  reset() {
+    this.buffer = new Float32Array(0);
+  }
+}
+
+export const extractFeatures = (samples: Float32Array): FeatureFrame[] => new MfccExtractor().push(samples);
@@ -0,0 +1,136 @@
+import { PcmFrameEncoder } from './pcm-encoder';
+import type { PcmCaptureOptions } from './pcm-capture.worklet';
+import captureWorkletUrl from './pcm-capture.worklet.ts?worker&url';
+
+// Each callback carries this much audio, instead of one per render quantum.
+const CAPTURE_FRAME_MS = 100;
+// Main-thread fallback only; large enough to keep callbacks infrequent.
+const FALLBACK_BUFFER_SIZE = 4096;
+
+/**
+ * Microphone capture to 16-bit PCM frames at `sampleRate`, with no playback
+ * side: nothing is registered for audio focus. The context runs at whatever
+ * rate the device prefers and audio is resampled on the way out.
+ */
+export class MicCapture {
+  readonly audioContext: AudioContext;
+  readonly inputNode: GainNode;
+  private mediaStream: MediaStream | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private captureNode: AudioNode | null = null;
+  private workletLoaded: Promise<boolean> | null = null;
+  private closed = false;
+
+  constructor(private sampleRate: number) {
+    const AudioContextCtor = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    this.audioContext = new AudioContextCtor();
+    this.inputNode = this.audioContext.createGain();
+  }
+
+  /** The open microphone, for callers that also record it; null until `start` resolves. */
+  get stream(): MediaStream | null {
+    return this.mediaStream;
+  }
+
+  resume(): Promise<void> {
+    return this.audioContext.resume();
+  }
+
+  /** Resolves false where AudioWorklet is missing or the module fails to load. */
+  private loadCaptureWorklet(): Promise<boolean> {
+    if (!this.workletLoaded) {
+      const worklet = this.audioContext.audioWorklet;
+      this.workletLoaded = worklet
+        ? worklet.addModule(captureWorkletUrl).then(
+            () => true,
+            (err) => {
+              console.warn('Capture worklet unavailable, falling back to ScriptProcessorNode:', err);
+              return false;
+            },
+          )
+        : Promise.resolve(false);
+    }
+    return this.workletLoaded;
+  }
+
+  private createWorkletCapture(onFrame: (frame: Int16Array) => void): AudioWorkletNode {
+    const processorOptions: PcmCaptureOptions = {
+      targetSampleRate: this.sampleRate,
+      frameMs: CAPTURE_FRAME_MS,
+    };
+    const node = new AudioWorkletNode(this.audioContext, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions,
+    });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => onFrame(event.data);
+    node.addEventListener('processorerror', () => console.error('Capture worklet crashed'));
+    return node;
+  }
+
+  private createScriptProcessorCapture(onFrame: (frame: Int16Array) => void): ScriptProcessorNode {
+    const encoder = new PcmFrameEncoder(this.audioContext.sampleRate, this.sampleRate, CAPTURE_FRAME_MS);
+    const node = this.audioContext.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+    node.onaudioprocess = (audioProcessingEvent) => {
+      encoder.push(audioProcessingEvent.inputBuffer.getChannelData(0)).forEach(onFrame);
+    };
+    // ScriptProcessorNode only runs while connected to the destination.
+    node.connect(this.audioContext.destination);
+    return node;
+  }
+
+  /**
+   * Opens the microphone and calls `onFrame` with ~100 ms frames until `stop`
+   * or `close`. Encoding runs in an AudioWorklet where available. Rejects if
+   * microphone access is denied; closing while the mic is still opening
+   * releases it again and resolves without capturing.
+   */
+  async start(onFrame: (frame: Int16Array) => void): Promise<void> {
+    const mediaStream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+      },
+    });
+    if (this.closed) {
+      mediaStream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.mediaStream = mediaStream;
+    this.sourceNode = this.audioContext.createMediaStreamSource(mediaStream);
+    this.sourceNode.connect(this.inputNode);
+
+    const useWorklet = await this.loadCaptureWorklet();
+    // `close` has already released the stream.
+    if (this.closed) return;
+    this.captureNode = useWorklet ? this.createWorkletCapture(onFrame) : this.createScriptProcessorCapture(onFrame);
+    this.sourceNode.connect(this.captureNode);
+  }
+
+  stop(): void {
+    if (this.captureNode) {
+      // Tells the worklet to stop processing; ignored by ScriptProcessorNode.
+      (this.captureNode as Partial<AudioWorkletNode>).port?.postMessage('stop');
+      this.captureNode.disconnect();
+    }
+    this.sourceNode?.disconnect();
+
+    this.captureNode = null;
+    this.sourceNode = null;
+
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach((track) => track.stop());
+      this.mediaStream = null;
+    }
+  }
+
+  /** Stops capture and releases the context. Safe to call more than once. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.stop();
+    this.audioContext.close().catch((err) => console.warn('Failed to close the capture context:', err));
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Wire format spoken between `MockVoiceProvider` and `server/mock-live.ts`.
+ * Audio is base64 little-endian 16-bit mono PCM: 16 kHz upstream, 24 kHz down.
+ */
+export type MockLiveClientMessage =
+  | { type: 'audio'; data: string }
+  | { type: 'audioStreamEnd' }
+  | { type: 'interrupt' }
+  | { type: 'text'; text: string }
+  | { type: 'context'; turns: { role: 'user' | 'model'; text: string }[] }
+  | { type: 'toolResponse'; id: string; response: Record<string, unknown> };
+
+export type MockLiveServerMessage =
+  | { type: 'ready' }
+  | { type: 'audio'; data: string }
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputTranscription'; text: string }
+  | { type: 'toolCall'; id: string; name: string; args: Record<string, unknown> }
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' };
+
+export const MOCK_LIVE_DEFAULT_PORT = 8787;
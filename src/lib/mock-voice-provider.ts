@@ -0,0 +1,238 @@
+import { SCREEN_CONTEXT_PREFIX } from './assistant-persona';
+import { getAssistantSettings, type TalkMode } from './assistant-settings';
+import { microphoneError, type AssistantState } from './assistant-state';
+import { decode } from './gemini-utils';
+import { executeLauncherTool } from './launcher-tools';
+import { LiveAudioIO } from './live-audio-io';
+import { TurnTranscript, type CaptionEvent, type CompletedTurn } from './turn-transcript';
+import { SpeechGate } from './voice-activity';
+import {
+  MOCK_LIVE_DEFAULT_PORT,
+  type MockLiveClientMessage,
+  type MockLiveServerMessage,
+} from './mock-live-protocol';
+import type { VoiceAssistantProvider } from './voice-assistant';
+
+const DEFAULT_URL = `ws://localhost:${MOCK_LIVE_DEFAULT_PORT}`;
+
+/**
+ * Offline stand-in for Gemini Live. Talks to the canned-response server started
+ * with `npm run mock:live`, so the overlay can be exercised without a key.
+ */
+export class MockVoiceProvider implements VoiceAssistantProvider {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<void> | null = null;
+  private io = new LiveAudioIO({ inputSampleRate: 16000, outputSampleRate: 24000 });
+  private isRecording = false;
+  private talkMode: TalkMode = 'toggle';
+  private speechGate = new SpeechGate<string>({ frameMs: 100 });
+  private transcript = new TurnTranscript();
+  private state: AssistantState = { type: 'idle' };
+  private screenContext: string | null = null;
+  private sentScreenContext: string | null = null;
+
+  public onStateChange?: (state: AssistantState) => void;
+  public onText?: (text: string) => void;
+  public onAudio?: (pcm: Uint8Array) => void;
+  public onCaption?: (caption: CaptionEvent) => void;
+  public onTurnComplete?: (turn: CompletedTurn) => void;
+
+  constructor(private url: string = import.meta.env.VITE_MOCK_LIVE_URL || DEFAULT_URL) {
+    this.io.onPlaybackEnded = () => {
+      if (this.state.type === 'model-speaking') this.setState(this.restingState());
+    };
+  }
+
+  connect(): Promise<void> {
+    if (this.socket?.readyState === WebSocket.OPEN) return Promise.resolve();
+    if (!this.connecting) {
+      this.talkMode = getAssistantSettings().talkMode;
+      this.setState({ type: 'connecting' });
+      this.connecting = this.openSocket().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve) => {
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        this.setState(this.restingState());
+        this.sentScreenContext = null;
+        this.sendScreenContext();
+        resolve();
+      };
+      socket.onmessage = (event: MessageEvent<string>) => {
+        this.handleMessage(JSON.parse(event.data) as MockLiveServerMessage);
+      };
+      socket.onerror = () => {
+        this.setState({ type: 'error', code: 'connection-failed', detail: this.url });
+        resolve();
+      };
+      socket.onclose = (e: CloseEvent) => {
+        // Sockets we closed ourselves have already been detached.
+        if (this.socket === socket) {
+          this.socket = null;
+          if (this.state.type !== 'error') {
+            this.setState({ type: 'error', code: 'connection-lost', detail: e.reason || undefined });
+          }
+        }
+        resolve();
+      };
+    });
+  }
+
+  private async handleMessage(message: MockLiveServerMessage) {
+    switch (message.type) {
+      case 'audio':
+        if (this.state.type !== 'model-speaking') this.setState({ type: 'model-speaking' });
+        await this.io.play(message.data);
+        this.onAudio?.(decode(message.data));
+        break;
+      case 'inputTranscription':
+        this.onCaption?.(this.transcript.append('user', message.text));
+        break;
+      case 'outputTranscription':
+        this.onCaption?.(this.transcript.append('model', message.text));
+        break;
+      case 'turnComplete': {
+        const turn = this.transcript.complete();
+        if (turn) this.onTurnComplete?.(turn);
+        if (!this.io.isPlaying()) this.setState(this.restingState());
+        break;
+      }
+      case 'toolCall': {
+        const response = executeLauncherTool(message.name, message.args);
+        this.transcript.recordAction({ name: message.name, args: message.args, response });
+        this.send({ type: 'toolResponse', id: message.id, response });
+        break;
+      }
+      case 'interrupted':
+        this.io.interruptPlayback();
+        this.setState({ type: 'interrupted' });
+        break;
+    }
+  }
+
+  private send(message: MockLiveClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private restingState(): AssistantState {
+    return this.isRecording ? { type: 'listening' } : { type: 'connected' };
+  }
+
+  private setState(state: AssistantState) {
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+
+  async startRecording(): Promise<void> {
+    if (this.isRecording) return;
+
+    await this.io.resume();
+    await this.connect();
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+
+    try {
+      await this.io.startCapture((blob, frame) => {
+        if (!this.isRecording) return;
+        if (this.talkMode !== 'openMic') {
+          this.send({ type: 'audio', data: blob.data });
+          return;
+        }
+        // The mock server has no activity messages; an utterance ending is a stream end.
+        const { chunks, event } = this.speechGate.push(blob.data, frame);
+        chunks.forEach((data) => this.send({ type: 'audio', data }));
+        if (event === 'speechEnd') this.send({ type: 'audioStreamEnd' });
+      });
+
+      this.isRecording = true;
+      this.setState({ type: 'listening' });
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      this.setState(microphoneError(err));
+    }
+  }
+
+  stopRecording(): void {
+    if (!this.isRecording) return;
+
+    this.isRecording = false;
+    this.io.stopCapture();
+    if (this.talkMode !== 'openMic' || this.speechGate.isOpen) this.send({ type: 'audioStreamEnd' });
+    this.speechGate.reset();
+    this.setState(this.socket ? { type: 'connected' } : { type: 'idle' });
+  }
+
+  async sendText(text: string): Promise<void> {
+    await this.io.resume();
+    await this.connect();
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+
+    this.onCaption?.(this.transcript.append('user', text));
+    this.send({ type: 'text', text });
+  }
+
+  async loadHistory(turns: CompletedTurn[]): Promise<void> {
+    await this.connect();
+    if (turns.length === 0) return;
+
+    this.send({
+      type: 'context',
+      turns: turns.flatMap((turn) => [
+        { role: 'user' as const, text: turn.userText },
+        { role: 'model' as const, text: turn.modelText },
+      ]),
+    });
+  }
+
+  setScreenContext(snapshot: string): void {
+    this.screenContext = snapshot;
+    this.sendScreenContext();
+  }
+
+  private sendScreenContext() {
+    if (this.socket?.readyState !== WebSocket.OPEN || !this.screenContext) return;
+    if (this.screenContext === this.sentScreenContext) return;
+    this.send({ type: 'context', turns: [{ role: 'user', text: `${SCREEN_CONTEXT_PREFIX}\n${this.screenContext}` }] });
+    this.sentScreenContext = this.screenContext;
+  }
+
+  setPlaybackMuted(muted: boolean): void {
+    this.io.setMuted(muted);
+  }
+
+  interrupt(): void {
+    this.send({ type: 'interrupt' });
+    if (!this.io.isPlaying()) return;
+    this.io.interruptPlayback();
+    this.setState({ type: 'interrupted' });
+  }
+
+  async reset(): Promise<void> {
+    this.stopRecording();
+    this.io.interruptPlayback();
+    this.transcript.reset();
+    this.socket?.close();
+    this.socket = null;
+    await this.connect();
+  }
+
+  getIsRecording(): boolean {
+    return this.isRecording;
+  }
+
+  destroy(): void {
+    this.stopRecording();
+    this.socket?.close();
+    this.socket = null;
+    this.io.close();
+  }
+}
@@ -0,0 +1,46 @@
+import { PcmFrameEncoder } from './pcm-encoder';
+
+// AudioWorkletGlobalScope is not part of the DOM lib typings.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+export interface PcmCaptureOptions {
+  targetSampleRate: number;
+  frameMs: number;
+}
+
+/**
+ * Encodes microphone input off the main thread and posts one transferable
+ * Int16Array per frame to the node's port.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private encoder: PcmFrameEncoder;
+  private stopped = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameMs } = options.processorOptions as PcmCaptureOptions;
+    this.encoder = new PcmFrameEncoder(sampleRate, targetSampleRate, frameMs);
+    this.port.onmessage = (event: MessageEvent) => {
+      if (event.data === 'stop') this.stopped = true;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (this.stopped) return false;
+
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      for (const frame of this.encoder.push(channel)) {
+        this.port.postMessage(frame, [frame.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { PcmFrameEncoder } from './pcm-encoder';
+
+describe('PcmFrameEncoder', () => {
+  it('emits fixed-length frames once enough audio has arrived', () => {
+    const encoder = new PcmFrameEncoder(16000, 16000, 100);
+    expect(encoder.push(new Float32Array(1000))).toHaveLength(0);
+    const frames = encoder.push(new Float32Array(2500));
+    expect(frames).toHaveLength(2);
+    frames.forEach((frame) => expect(frame.length).toBe(1600));
+  });
+
+  it('scales and clamps samples to the 16-bit range', () => {
+    const encoder = new PcmFrameEncoder(16000, 16000, 0.25);
+    const [frame] = encoder.push(Float32Array.from([1, -1, 2, -2]));
+    expect(Array.from(frame)).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('resamples to the output rate before framing', () => {
+    const encoder = new PcmFrameEncoder(48000, 16000, 100);
+    const frames = encoder.push(new Float32Array(48000));
+    // A second of input at 48 kHz makes a second of output at 16 kHz.
+    expect(frames).toHaveLength(10);
+    expect(frames[0].length).toBe(1600);
+  });
+
+  it('flushes the partial frame and then starts afresh', () => {
+    const encoder = new PcmFrameEncoder(16000, 16000, 100);
+    encoder.push(new Float32Array(400).fill(0.5));
+    expect(encoder.flush()?.length).toBe(400);
+    expect(encoder.flush()).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { Resampler } from './resampler';
+
+/**
+ * Turns a stream of Float32 microphone samples at the device's rate into
+ * fixed-length 16-bit PCM frames at the provider's rate. Runs unchanged inside
+ * the capture worklet and on the main thread when worklets are unavailable.
+ */
+export class PcmFrameEncoder {
+  private readonly resampler: Resampler;
+  private readonly frameLength: number;
+  private frame: Int16Array;
+  private frameOffset = 0;
+
+  constructor(inputSampleRate: number, outputSampleRate: number, frameMs: number) {
+    this.resampler = new Resampler(inputSampleRate, outputSampleRate);
+    this.frameLength = Math.round((outputSampleRate * frameMs) / 1000);
+    this.frame = new Int16Array(this.frameLength);
+  }
+
+  /** Consumes `samples` and returns any frames that are now complete. */
+  push(samples: Float32Array): Int16Array[] {
+    const frames: Int16Array[] = [];
+
+    for (const sample of this.resampler.process(samples)) {
+      const clamped = Math.max(-1, Math.min(1, sample));
+      this.frame[this.frameOffset++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+
+      if (this.frameOffset === this.frameLength) {
+        frames.push(this.frame);
+        this.frame = new Int16Array(this.frameLength);
+        this.frameOffset = 0;
+      }
+    }
+
+    return frames;
+  }
+
+  /** Returns the partially filled frame, if any, and starts a new one. */
+  flush(): Int16Array | null {
+    if (this.frameOffset === 0) return null;
+    const partial = this.frame.slice(0, this.frameOffset);
+    this.frame = new Int16Array(this.frameLength);
+    this.frameOffset = 0;
+    return partial;
+  }
+}
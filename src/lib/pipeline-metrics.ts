@@ -0,0 +1,50 @@
+/**
+ * Timing spans from the live voice pipeline, for the developer diagnostics
+ * screen. Kept in memory and capped, since reply chunks arrive many per second.
+ *
+ * connect: opening a session. response-latency: end of the user's speech to
+ * the first reply audio. chunk-decode: decoding and scheduling one reply chunk.
+ * queue-depth: reply audio queued after a chunk is scheduled. underrun: how long
+ * playback sat starved mid-reply before the next chunk arrived.
+ */
+export type PipelineMetricName = 'connect' | 'response-latency' | 'chunk-decode' | 'queue-depth' | 'underrun';
+
+export interface PipelineMetric {
+  id: string;
+  name: PipelineMetricName;
+  timestamp: Date;
+  /** Milliseconds: a span's duration, or for queue depth the audio queued. */
+  value: number;
+  detail?: string;
+  failed?: boolean;
+}
+
+const MAX_METRICS = 1000;
+
+const listeners = new Set<() => void>();
+let metrics: PipelineMetric[] = [];
+let nextId = 0;
+
+export const getPipelineMetrics = () => metrics;
+
+export const recordPipelineMetric = (
+  name: PipelineMetricName,
+  value: number,
+  options: { detail?: string; failed?: boolean } = {},
+) => {
+  const metric = { id: String(nextId++), name, timestamp: new Date(), value: Math.round(value * 100) / 100, ...options };
+  metrics = [...metrics.slice(-(MAX_METRICS - 1)), metric];
+  listeners.forEach((listener) => listener());
+};
+
+export const clearPipelineMetrics = () => {
+  metrics = [];
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribePipelineMetrics = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
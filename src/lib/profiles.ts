@@ -0,0 +1,69 @@
+/**
+ * Viewer profiles on this device. Each keeps its own conversation history;
+ * the active one is remembered across launches.
+ */
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+export interface ProfilesState {
+  profiles: Profile[];
+  activeId: string;
+}
+
+const STORAGE_KEY = 'atlas.profiles';
+
+const defaultProfilesState: ProfilesState = {
+  profiles: [{ id: 'default', name: 'Me' }],
+  activeId: 'default',
+};
+
+const listeners = new Set<() => void>();
+let cached: ProfilesState | null = null;
+
+const load = (): ProfilesState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.error('Failed to read profiles:', e);
+  }
+  return defaultProfilesState;
+};
+
+const save = (state: ProfilesState) => {
+  cached = state;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  listeners.forEach((listener) => listener());
+};
+
+export const getProfilesState = (): ProfilesState => {
+  if (!cached) cached = load();
+  return cached;
+};
+
+export const getActiveProfile = (): Profile => {
+  const { profiles, activeId } = getProfilesState();
+  return profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+};
+
+/** Adds a profile and switches to it. */
+export const addProfile = (name: string): Profile => {
+  const profile = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name };
+  save({ profiles: [...getProfilesState().profiles, profile], activeId: profile.id });
+  return profile;
+};
+
+export const setActiveProfile = (id: string) => {
+  const state = getProfilesState();
+  if (state.activeId === id || !state.profiles.some((profile) => profile.id === id)) return;
+  save({ ...state, activeId: id });
+};
+
+export const subscribeProfiles = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Resampler } from './resampler';
+
+const tone = (frequency: number, sampleRate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const peak = (samples: Float32Array) => samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+describe('Resampler', () => {
+  it('passes audio through untouched when the rates match', () => {
+    const input = tone(440, 16000, 160);
+    expect(new Resampler(16000, 16000).process(input)).toBe(input);
+  });
+
+  it('produces one output sample per step of input', () => {
+    const resampler = new Resampler(48000, 16000);
+    let total = 0;
+    for (let i = 0; i < 10; i++) total += resampler.process(new Float32Array(4800)).length;
+    // Output trails input by the filter's half length, at most a few dozen samples.
+    expect(total).toBeLessThanOrEqual(16000);
+    expect(total).toBeGreaterThan(16000 - 64);
+  });
+
+  it('keeps DC at unity gain', () => {
+    const output = new Resampler(44100, 16000).process(new Float32Array(44100).fill(0.5));
+    output.slice(100).forEach((sample) => expect(sample).toBeCloseTo(0.5, 3));
+  });
+
+  it('keeps tones in the passband and removes ones that would alias', () => {
+    const pass = new Resampler(48000, 16000).process(tone(1000, 48000, 48000));
+    const alias = new Resampler(48000, 16000).process(tone(12000, 48000, 48000));
+    expect(peak(pass.slice(200))).toBeCloseTo(0.5, 1);
+    expect(peak(alias.slice(200))).toBeLessThan(0.01);
+  });
+
+  it('gives the same result however the input is chunked', () => {
+    const input = tone(700, 24000, 6000);
+    const whole = new Resampler(24000, 44100).process(input);
+
+    const chunked = new Resampler(24000, 44100);
+    const parts: number[] = [];
+    for (let offset = 0; offset < input.length; offset += 1234) {
+      parts.push(...chunked.process(input.subarray(offset, offset + 1234)));
+    }
+
+    expect(parts.length).toBe(whole.length);
+    parts.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('forgets buffered history on reset', () => {
+    const resampler = new Resampler(48000, 16000);
+    resampler.process(new Float32Array(4800).fill(1));
+    resampler.reset();
+    expect(peak(resampler.process(new Float32Array(4800)))).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+// Kernel offsets are quantised to this many steps per input sample.
+const PHASES = 256;
+// Zero crossings of the sinc kept on each side of the centre, at the cutoff.
+const ZERO_CROSSINGS = 8;
+// Fraction of the lower Nyquist frequency left unattenuated.
+const PASSBAND = 0.9;
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+const blackman = (x: number) =>
+  0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+/**
+ * Streaming band-limited resampler for mono Float32 audio. A windowed-sinc
+ * low-pass at the lower of the two Nyquist frequencies removes content that
+ * would otherwise alias when downsampling (and imaging when upsampling).
+ *
+ * Output lags input by `halfTaps` input samples; state carries across
+ * `process` calls so chunk boundaries are seamless.
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly halfTaps: number;
+  private readonly kernels: Float32Array[];
+  private buffer: Float32Array;
+  // Input position of the next output sample, relative to `buffer[0]`.
+  private time: number;
+
+  constructor(
+    readonly inputSampleRate: number,
+    readonly outputSampleRate: number,
+  ) {
+    this.step = inputSampleRate / outputSampleRate;
+    const cutoff = Math.min(1, outputSampleRate / inputSampleRate) * PASSBAND;
+    this.halfTaps = Math.ceil(ZERO_CROSSINGS / cutoff);
+    this.kernels = Resampler.buildKernels(this.halfTaps, cutoff);
+    this.buffer = new Float32Array(this.halfTaps * 2 - 1);
+    this.time = this.halfTaps - 1;
+  }
+
+  /** One normalised kernel per phase, so every phase passes DC at unity gain. */
+  private static buildKernels(halfTaps: number, cutoff: number): Float32Array[] {
+    const kernels: Float32Array[] = [];
+    for (let phase = 0; phase <= PHASES; phase++) {
+      const frac = phase / PHASES;
+      const kernel = new Float32Array(halfTaps * 2);
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const distance = frac + halfTaps - 1 - k;
+        const value = cutoff * sinc(cutoff * distance) * blackman(distance / halfTaps);
+        kernel[k] = value;
+        sum += value;
+      }
+      for (let k = 0; k < kernel.length; k++) kernel[k] /= sum;
+      kernels.push(kernel);
+    }
+    return kernels;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.inputSampleRate === this.outputSampleRate) return input;
+
+    const buffer = new Float32Array(this.buffer.length + input.length);
+    buffer.set(this.buffer);
+    buffer.set(input, this.buffer.length);
+
+    const taps = this.halfTaps * 2;
+    const available = Math.max(0, Math.ceil((buffer.length - this.halfTaps - this.time) / this.step));
+    const output = new Float32Array(available);
+    let count = 0;
+
+    while (count < available) {
+      const index = Math.floor(this.time);
+      if (index + this.halfTaps >= buffer.length) break;
+
+      const kernel = this.kernels[Math.round((this.time - index) * PHASES)];
+      const start = index - this.halfTaps + 1;
+      let sample = 0;
+      for (let k = 0; k < taps; k++) sample += buffer[start + k] * kernel[k];
+
+      output[count++] = sample;
+      this.time += this.step;
+    }
+
+    // Keep only the history the next output still needs.
+    const keepFrom = Math.floor(this.time) - this.halfTaps + 1;
+    this.buffer = buffer.slice(keepFrom);
+    this.time -= keepFrom;
+
+    return count === available ? output : output.subarray(0, count);
+  }
+
+  /** Drops buffered history, e.g. when playback is interrupted. */
+  reset() {
+    this.buffer = new Float32Array(this.halfTaps * 2 - 1);
+    this.time = this.halfTaps - 1;
+  }
+}
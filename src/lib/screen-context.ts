@@ -0,0 +1,65 @@
+import { heroSlides, launcherApps, launcherTabs, type ContentItem } from './launcher-data';
+
+/**
+ * What the viewer is looking at, reported by the launcher components as focus
+ * moves. The assistant gets it as session context so it can answer questions
+ * like "what's this movie about?" or "play the one on the left".
+ */
+export interface FocusedContent {
+  row: string;
+  item: ContentItem;
+  /** 1-based position in the row. */
+  position: number;
+  left?: ContentItem;
+  right?: ContentItem;
+}
+
+export interface ScreenContext {
+  /** Part of the home screen with focus, e.g. "Featured carousel"; null off the home screen. */
+  section: string | null;
+  focusedContent: FocusedContent | null;
+  /** Index into `heroSlides` of the slide currently shown. */
+  heroSlide: number | null;
+  focusedApp: string | null;
+}
+
+const listeners = new Set<() => void>();
+let context: ScreenContext = { section: null, focusedContent: null, heroSlide: null, focusedApp: null };
+
+export const getScreenContext = () => context;
+
+export const updateScreenContext = (patch: Partial<ScreenContext>) => {
+  context = { ...context, ...patch };
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeScreenContext = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const describeItem = (item: ContentItem) =>
+  [item.title, item.year && `(${item.year})`, item.genre, item.rating && `rated ${item.rating}`].filter(Boolean).join(' ');
+
+const screenName = (pathname: string) =>
+  pathname === '/' ? 'Home' : launcherTabs.find((tab) => tab.path === pathname)?.label ?? pathname;
+
+/** Plain-text snapshot for the model, given the current route. */
+export const describeScreenContext = (pathname: string, { section, focusedContent, heroSlide, focusedApp }: ScreenContext) => {
+  const lines = [`Screen: ${screenName(pathname)}${section ? `, ${section} section focused` : ''}`];
+  if (focusedContent) {
+    const { row, item, position, left, right } = focusedContent;
+    lines.push(`Focused title: ${describeItem(item)}, item ${position} in the "${row}" row`);
+    if (left) lines.push(`To its left: ${describeItem(left)}`);
+    if (right) lines.push(`To its right: ${describeItem(right)}`);
+  }
+  if (heroSlide !== null && heroSlides[heroSlide]) {
+    const slide = heroSlides[heroSlide];
+    lines.push(`Featured carousel shows: ${slide.title} (${slide.category}, rated ${slide.rating}): ${slide.description}`);
+  }
+  if (focusedApp) lines.push(`Focused app: ${focusedApp}`);
+  lines.push(`Installed apps: ${launcherApps.map((app) => app.name).join(', ')}`);
+  return lines.join('\n');
+};
@@ -0,0 +1,154 @@
+import { Resampler } from './resampler';
+import { encodeWav } from './wav';
+
+/** One stereo file (left: microphone, right: model) or one mono file per side. */
+export type SessionRecordingLayout = 'stereo' | 'mono';
+
+export interface SessionRecordingEvent {
+  /** Milliseconds since the recording started, on the same clock as the audio. */
+  timeMs: number;
+  type: string;
+  detail?: unknown;
+}
+
+export interface SessionRecordingFile {
+  name: string;
+  blob: Blob;
+}
+
+export interface SessionRecording {
+  id: string;
+  startedAt: Date;
+  durationMs: number;
+  layout: SessionRecordingLayout;
+  files: SessionRecordingFile[];
+}
+
+const RECORDING_SAMPLE_RATE = 24000;
+// Chunks that arrive up to this late still join the track end to end; a longer
+// gap (e.g. the mic was off) is kept as silence.
+const GAP_TOLERANCE_MS = 250;
+
+/** A growable 16-bit mono track that chunks are written into at a sample offset. */
+class Track {
+  private data = new Int16Array(RECORDING_SAMPLE_RATE * 10);
+  length = 0;
+
+  write(at: number, samples: Int16Array) {
+    const start = at - this.length > (RECORDING_SAMPLE_RATE * GAP_TOLERANCE_MS) / 1000 ? at : this.length;
+    const end = start + samples.length;
+    if (end > this.data.length) {
+      const grown = new Int16Array(Math.max(end, this.data.length * 2));
+      grown.set(this.data.subarray(0, this.length));
+      this.data = grown;
+    }
+    // Skipped samples are already zero: fresh buffers are, and truncate() clears.
+    this.data.set(samples, start);
+    this.length = end;
+  }
+
+  /** Drops anything at or after `at`, e.g. reply audio that was interrupted before it played. */
+  truncate(at: number) {
+    if (at >= this.length) return;
+    this.data.fill(0, Math.max(0, at), this.length);
+    this.length = Math.max(0, at);
+  }
+
+  samples(length: number) {
+    const out = new Int16Array(length);
+    out.set(this.data.subarray(0, Math.min(length, this.length)));
+    return out;
+  }
+}
+
+const floatToPcm16 = (samples: Float32Array) =>
+  Int16Array.from(samples, (sample) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    return clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+  });
+
+const fileStamp = (date: Date) => date.toISOString().replace(/[:.]/g, '-');
+
+/**
+ * Captures both sides of a live session for QA: microphone frames as they are
+ * captured and reply audio at the moment it is scheduled to play, on one clock,
+ * plus a log of session events for the JSON sidecar.
+ */
+export class SessionRecorder {
+  readonly startedAt = new Date();
+  private startTime = performance.now();
+  private mic = new Track();
+  private model = new Track();
+  private micResampler: Resampler;
+  private events: SessionRecordingEvent[] = [];
+
+  constructor(private micSampleRate: number) {
+    this.micResampler = new Resampler(micSampleRate, RECORDING_SAMPLE_RATE);
+  }
+
+  private now() {
+    return performance.now() - this.startTime;
+  }
+
+  private sampleAt(timeMs: number) {
+    return Math.round((timeMs * RECORDING_SAMPLE_RATE) / 1000);
+  }
+
+  /** A captured microphone frame, at the rate given to the constructor. */
+  addMic(frame: Int16Array) {
+    const durationMs = (frame.length / this.micSampleRate) * 1000;
+    const floats = Float32Array.from(frame, (sample) => sample / 32768);
+    // Frames are delivered once complete, so this one began a frame ago.
+    this.mic.write(this.sampleAt(this.now() - durationMs), floatToPcm16(this.micResampler.process(floats)));
+  }
+
+  /** 24 kHz reply PCM that will start playing `delayMs` from now. */
+  addModel(pcm: Int16Array, delayMs: number) {
+    this.model.write(this.sampleAt(this.now() + delayMs), pcm);
+  }
+
+  /** Playback was cut off; whatever was queued after this point never played. */
+  interruptModel() {
+    this.model.truncate(this.sampleAt(this.now()));
+  }
+
+  event(type: string, detail?: unknown) {
+    this.events.push({ timeMs: Math.round(this.now()), type, detail });
+  }
+
+  finish(layout: SessionRecordingLayout): SessionRecording {
+    const durationMs = Math.round(this.now());
+    const length = Math.max(this.mic.length, this.model.length);
+    const mic = this.mic.samples(length);
+    const model = this.model.samples(length);
+    const base = `atlas-session-${fileStamp(this.startedAt)}`;
+
+    const audioFiles: SessionRecordingFile[] =
+      layout === 'stereo'
+        ? [{ name: `${base}.wav`, blob: encodeWav([mic, model], RECORDING_SAMPLE_RATE) }]
+        : [
+            { name: `${base}-mic.wav`, blob: encodeWav([mic], RECORDING_SAMPLE_RATE) },
+            { name: `${base}-model.wav`, blob: encodeWav([model], RECORDING_SAMPLE_RATE) },
+          ];
+
+    const sidecar = {
+      startedAt: this.startedAt.toISOString(),
+      durationMs,
+      sampleRate: RECORDING_SAMPLE_RATE,
+      channels: layout === 'stereo' ? { left: 'microphone', right: 'model' } : { mic: 'microphone', model: 'model' },
+      files: audioFiles.map((file) => file.name),
+      events: this.events,
+    };
+
+    return {
+      id: base,
+      startedAt: this.startedAt,
+      durationMs,
+      layout,
+      files: [
+        ...audioFiles,
+        { name: `${base}-events.json`, blob: new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json' }) },
+      ],
+    };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Finished session recordings, newest first. Kept in memory only, so they last
+ * until the page reloads; download anything worth keeping from Diagnostics.
+ */
+
+import type { SessionRecording } from './session-recorder';
+
+const MAX_RECORDINGS = 10;
+
+const listeners = new Set<() => void>();
+let recordings: SessionRecording[] = [];
+
+const set = (next: SessionRecording[]) => {
+  recordings = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const getSessionRecordings = () => recordings;
+
+export const addSessionRecording = (recording: SessionRecording) => {
+  set([recording, ...recordings].slice(0, MAX_RECORDINGS));
+};
+
+export const removeSessionRecording = (id: string) => {
+  set(recordings.filter((recording) => recording.id !== id));
+};
+
+export const subscribeSessionRecordings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,22 @@
+/**
+ * JSON spoken between the `server` speech engine and the server's
+ * `GET /tts/voices` and `POST /tts`. The POST answers with the audio itself;
+ * errors come back as `{ error }` with a non-2xx status.
+ */
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  /** BCP-47 code, or empty when the voice speaks whatever it is given. */
+  language: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  /** A `SpeechVoice.id`; the engine's default when omitted. */
+  voice?: string;
+  /** 1 is normal speed. */
+  rate?: number;
+  /** 1 is normal pitch; engines that can't change pitch ignore it. */
+  pitch?: number;
+}
@@ -0,0 +1,135 @@
+/**
+ * Speech-to-text used for local voice commands. The default is the browser's
+ * Web Speech API, kept on-device where the browser supports that; another
+ * engine can be plugged in with `setSpeechRecognizerFactory`.
+ */
+export interface SpeechRecognitionResult {
+  transcript: string;
+  /** False while the recognizer is still revising this utterance. */
+  isFinal: boolean;
+}
+
+/**
+ * no-speech: nothing was heard before the recognizer gave up. unavailable: the
+ * engine can't run here (offline, unsupported language, blocked by policy).
+ */
+export type SpeechRecognizerError = 'no-speech' | 'microphone-denied' | 'microphone-unavailable' | 'unavailable';
+
+export interface SpeechRecognizer {
+  onResult?: (result: SpeechRecognitionResult) => void;
+  onError?: (error: SpeechRecognizerError) => void;
+  /** Listening stopped, after any final result has been delivered. */
+  onEnd?: () => void;
+
+  /** Opens the mic. Continuous keeps listening across utterances until `stop`. */
+  start(options: { continuous: boolean; language: string }): void;
+  /** Stops listening; a final result for speech so far may still arrive. */
+  stop(): void;
+  destroy(): void;
+}
+
+// The Web Speech recognition API is not in TypeScript's DOM library yet.
+interface WebSpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  processLocally?: boolean;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+const webSpeechRecognition = (): WebSpeechRecognitionConstructor | undefined => {
+  const scope = window as unknown as Record<string, WebSpeechRecognitionConstructor | undefined>;
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+const toRecognizerError = (error: string): SpeechRecognizerError | null => {
+  switch (error) {
+    case 'aborted':
+      return null;
+    case 'no-speech':
+      return 'no-speech';
+    case 'not-allowed':
+      return 'microphone-denied';
+    case 'audio-capture':
+      return 'microphone-unavailable';
+    default:
+      return 'unavailable';
+  }
+};
+
+export class WebSpeechRecognizer implements SpeechRecognizer {
+  private recognition: WebSpeechRecognition | null = null;
+
+  public onResult?: (result: SpeechRecognitionResult) => void;
+  public onError?: (error: SpeechRecognizerError) => void;
+  public onEnd?: () => void;
+
+  static isSupported() {
+    return typeof window !== 'undefined' && webSpeechRecognition() !== undefined;
+  }
+
+  start({ continuous, language }: { continuous: boolean; language: string }) {
+    const Recognition = webSpeechRecognition();
+    if (!Recognition) {
+      this.onError?.('unavailable');
+      this.onEnd?.();
+      return;
+    }
+
+    this.recognition?.abort();
+    const recognition = new Recognition();
+    this.recognition = recognition;
+    recognition.continuous = continuous;
+    recognition.interimResults = true;
+    recognition.lang = language;
+    // Newer browsers can keep recognition on the device instead of a speech service.
+    if ('processLocally' in recognition) recognition.processLocally = true;
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        this.onResult?.({ transcript: result[0].transcript, isFinal: result.isFinal });
+      }
+    };
+    recognition.onerror = (event) => {
+      const error = toRecognizerError(event.error);
+      if (error) this.onError?.(error);
+    };
+    recognition.onend = () => {
+      if (this.recognition !== recognition) return;
+      this.recognition = null;
+      this.onEnd?.();
+    };
+    recognition.start();
+  }
+
+  stop() {
+    this.recognition?.stop();
+  }
+
+  destroy() {
+    const recognition = this.recognition;
+    this.recognition = null;
+    recognition?.abort();
+  }
+}
+
+let factory: (() => SpeechRecognizer | null) | null = null;
+
+/** Swaps in another recognizer, e.g. an on-device model; null restores Web Speech. */
+export const setSpeechRecognizerFactory = (create: (() => SpeechRecognizer | null) | null) => {
+  factory = create;
+};
+
+/** A recognizer for local commands, or null if none can run in this browser. */
+export const createSpeechRecognizer = (): SpeechRecognizer | null => {
+  if (factory) return factory();
+  return WebSpeechRecognizer.isSupported() ? new WebSpeechRecognizer() : null;
+};
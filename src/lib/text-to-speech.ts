@@ -0,0 +1,316 @@
+import { getAssistantSettings } from './assistant-settings';
+import { registerAudioTarget, requestAudioFocus } from './audio-focus';
+import type { SpeechRequest, SpeechVoice } from './speech-protocol';
+
+export type { SpeechVoice } from './speech-protocol';
+
+/**
+ * Reads text aloud, one queued item at a time. browser: the Web Speech API's
+ * `speechSynthesis`, with the device's own voices. server: the backend's
+ * `POST /tts`, for voices the device doesn't have.
+ */
+export type SpeechEngineKind = 'browser' | 'server';
+
+/** The word being spoken, as a range of the text. */
+export interface WordBoundary {
+  charIndex: number;
+  charLength: number;
+}
+
+export interface SpeakOptions {
+  /** Engine-specific voice id; empty for the engine's default. */
+  voiceId: string;
+  /** 1 is normal speed. */
+  rate: number;
+  /** 1 is the voice's normal pitch. */
+  pitch: number;
+  /** Aborting stops speech; `speak` then resolves rather than rejecting. */
+  signal: AbortSignal;
+  onWord?: (word: WordBoundary) => void;
+}
+
+export interface SpeechEngine {
+  listVoices(): Promise<SpeechVoice[]>;
+  /** Resolves once the text has been spoken or stopped. */
+  speak(text: string, options: SpeakOptions): Promise<void>;
+}
+
+/** Length of the word starting at `charIndex`, for engines that only report where words start. */
+const wordLengthAt = (text: string, charIndex: number) => {
+  const match = /^\S+/.exec(text.slice(charIndex));
+  return match ? match[0].length : 0;
+};
+
+// How long to wait for the browser to load its voice list, which some do lazily.
+const VOICES_TIMEOUT_MS = 1000;
+
+class BrowserSpeechEngine implements SpeechEngine {
+  static isSupported() {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  async listVoices(): Promise<SpeechVoice[]> {
+    if (!BrowserSpeechEngine.isSupported()) return [];
+    const synth = window.speechSynthesis;
+    if (synth.getVoices().length === 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, VOICES_TIMEOUT_MS);
+        synth.addEventListener(
+          'voiceschanged',
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true },
+        );
+      });
+    }
+    return synth.getVoices().map((voice) => ({ id: voice.voiceURI, name: voice.name, language: voice.lang }));
+  }
+
+  speak(text: string, { voiceId, rate, pitch, signal, onWord }: SpeakOptions): Promise<void> {
+    if (!BrowserSpeechEngine.isSupported()) {
+      return Promise.reject(new Error('Speech playback is not available on this device'));
+    }
+    const synth = window.speechSynthesis;
+
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      const voice = synth.getVoices().find((candidate) => candidate.voiceURI === voiceId);
+      if (voice) {
+        utterance.voice = voice;
+        utterance.lang = voice.lang;
+      }
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+
+      const onAbort = () => synth.cancel();
+      const settle = () => signal.removeEventListener('abort', onAbort);
+      utterance.onboundary = (event) => {
+        if (event.name !== 'word') return;
+        onWord?.({ charIndex: event.charIndex, charLength: event.charLength || wordLengthAt(text, event.charIndex) });
+      };
+      utterance.onend = () => {
+        settle();
+        resolve();
+      };
+      utterance.onerror = (event) => {
+        settle();
+        // Cancelling, ours or another page's, is not a failure.
+        if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+        else reject(new Error(`Speech playback failed: ${event.error}`));
+      };
+
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      synth.speak(utterance);
+    });
+  }
+}
+
+/**
+ * Where each word starts as a fraction of the whole, weighting words by their
+ * length. The server sends bare audio, so this stands in for real timings.
+ */
+const estimateWordTimings = (text: string) => {
+  const words = [...text.matchAll(/\S+/g)].map((match) => ({ charIndex: match.index, charLength: match[0].length }));
+  const total = words.reduce((sum, word) => sum + word.charLength + 1, 0);
+  let elapsed = 0;
+  return words.map((word) => {
+    const at = elapsed / total;
+    elapsed += word.charLength + 1;
+    return { at, word };
+  });
+};
+
+class ServerSpeechEngine implements SpeechEngine {
+  constructor(
+    private baseUrl: string,
+    /** Sent as `X-Device-Id`, so the server rate-limits this TV on its own. */
+    private deviceId: string,
+  ) {}
+
+  async listVoices(): Promise<SpeechVoice[]> {
+    const response = await fetch(`${this.baseUrl}/tts/voices`, { headers: { 'X-Device-Id': this.deviceId } });
+    if (!response.ok) throw new Error(`Voice list failed with HTTP ${response.status}`);
+    const { voices } = (await response.json()) as { voices: SpeechVoice[] };
+    return voices;
+  }
+
+  async speak(text: string, { voiceId, rate, pitch, signal, onWord }: SpeakOptions): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/tts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Device-Id': this.deviceId },
+        body: JSON.stringify({ text, voice: voiceId || undefined, rate, pitch } satisfies SpeechRequest),
+        signal,
+      });
+    } catch {
+      if (signal.aborted) return;
+      throw new Error(`Could not reach ${this.baseUrl}`);
+    }
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(body?.error ?? `Speech failed with HTTP ${response.status}`);
+    }
+
+    const clip = await response.blob().catch((e) => {
+      if (signal.aborted) return null;
+      throw e;
+    });
+    if (!clip) return;
+
+    const url = URL.createObjectURL(clip);
+    const audio = new Audio(url);
+    const unregister = registerAudioTarget({
+      kind: 'assistant',
+      setLevel: () => {},
+      setSinkId: 'setSinkId' in audio ? (deviceId) => audio.setSinkId(deviceId) : undefined,
+    });
+    const timings = estimateWordTimings(text);
+    let nextWord = 0;
+    let frame: number | null = null;
+
+    const trackWords = () => {
+      if (audio.duration > 0) {
+        const position = audio.currentTime / audio.duration;
+        while (nextWord < timings.length && timings[nextWord].at <= position) {
+          onWord?.(timings[nextWord++].word);
+        }
+      }
+      frame = requestAnimationFrame(trackWords);
+    };
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          audio.pause();
+          resolve();
+        };
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('The speech server sent audio this device cannot play'));
+        signal.addEventListener('abort', onAbort, { once: true });
+        if (signal.aborted) onAbort();
+        else audio.play().then(trackWords, reject);
+      });
+    } finally {
+      if (frame !== null) cancelAnimationFrame(frame);
+      unregister();
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+export const DEFAULT_SPEECH_SERVER_URL = 'http://localhost:5000';
+
+export const isBrowserSpeechSupported = () => BrowserSpeechEngine.isSupported();
+
+/** `serverUrl` is the base URL of the speech server, for `server`; empty for `DEFAULT_SPEECH_SERVER_URL`. */
+export const createSpeechEngine = (kind: SpeechEngineKind, serverUrl = getAssistantSettings().speechServerUrl): SpeechEngine =>
+  kind === 'server'
+    ? new ServerSpeechEngine((serverUrl.trim() || DEFAULT_SPEECH_SERVER_URL).replace(/\/+$/, ''), getAssistantSettings().deviceId)
+    : new BrowserSpeechEngine();
+
+/** What is being read aloud right now, and what is waiting. */
+export interface SpeechPlayback {
+  /** The text being spoken; null when idle. */
+  text: string | null;
+  word: WordBoundary | null;
+  queued: number;
+}
+
+interface QueuedSpeech {
+  text: string;
+  /** Shared by the texts of one `speakText` call. */
+  call: object;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+const idle: SpeechPlayback = { text: null, word: null, queued: 0 };
+const listeners = new Set<() => void>();
+const queue: QueuedSpeech[] = [];
+let playback = idle;
+let current: AbortController | null = null;
+
+const setPlayback = (next: SpeechPlayback) => {
+  playback = next;
+  listeners.forEach((listener) => listener());
+};
+
+const playNext = async () => {
+  const item = queue.shift();
+  if (!item) {
+    setPlayback(idle);
+    return;
+  }
+
+  const controller = new AbortController();
+  current = controller;
+  setPlayback({ text: item.text, word: null, queued: queue.length });
+  const { speechEngine, speechServerUrl, speechVoiceId, speechRate, speechPitch } = getAssistantSettings();
+  const releaseFocus = requestAudioFocus();
+  try {
+    await createSpeechEngine(speechEngine, speechServerUrl).speak(item.text, {
+      voiceId: speechVoiceId,
+      rate: speechRate,
+      pitch: speechPitch,
+      signal: controller.signal,
+      onWord: (word) => {
+        if (current === controller) setPlayback({ ...playback, word });
+      },
+    });
+    item.resolve();
+  } catch (e) {
+    // The caller has its failure; the rest of what it asked for would play unasked.
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i].call === item.call) queue.splice(i, 1);
+    }
+    item.reject(e instanceof Error ? e : new Error(String(e)));
+  } finally {
+    releaseFocus();
+  }
+
+  if (current === controller) {
+    current = null;
+    playNext();
+  }
+};
+
+/**
+ * Queues `texts` to be read aloud with the voice, rate and pitch from settings.
+ * Resolves once they have all been spoken or stopped; on the first playback
+ * failure, drops the rest of them and rejects.
+ */
+export const speakText = (texts: string | string[]): Promise<void> => {
+  const items = (Array.isArray(texts) ? texts : [texts]).filter((text) => text.trim());
+  const call = {};
+  const done = Promise.all(
+    items.map((text) => new Promise<void>((resolve, reject) => queue.push({ text, call, resolve, reject }))),
+  ).then(() => {});
+  if (!current) playNext();
+  else setPlayback({ ...playback, queued: queue.length });
+  return done;
+};
+
+/** Stops the current speech and drops everything queued. */
+export const stopSpeaking = () => {
+  queue.splice(0).forEach((item) => item.resolve());
+  const controller = current;
+  current = null;
+  controller?.abort();
+  setPlayback(idle);
+};
+
+export const getSpeechPlayback = () => playback;
+
+export const subscribeSpeechPlayback = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,210 @@
+import { getAssistantSettings } from './assistant-settings';
+import { ExponentialBackoff } from './backoff';
+import { TRANSCRIPTION_AUDIO_FIELD, type TranscriptionResult } from './transcription-protocol';
+
+export type { TranscriptionResult, TranscriptionSegment } from './transcription-protocol';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  /** 0 to 1; 0 while the total is not yet known. */
+  fraction: number;
+}
+
+export interface TranscribeOptions {
+  /** Aborting rejects with a `cancelled` error, including while waiting to retry. */
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called before each retry, with the error that caused it. */
+  onRetry?: (info: { attempt: number; delayMs: number; error: TranscriptionError }) => void;
+  /** BCP-47 hint for the backend; omit to let it detect the language. */
+  language?: string;
+  fileName?: string;
+}
+
+/**
+ * network: the request never got a response. timeout: no response in time.
+ * server: a non-2xx response. bad-response: a 2xx that isn't a transcription.
+ * cancelled: the caller aborted.
+ */
+export type TranscriptionErrorCode = 'network' | 'timeout' | 'server' | 'bad-response' | 'cancelled';
+
+export class TranscriptionError extends Error {
+  constructor(
+    readonly code: TranscriptionErrorCode,
+    message: string,
+    /** HTTP status, for `server` errors. */
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+
+  /** Worth another try: the request may well succeed if sent again. */
+  get retryable() {
+    if (this.code === 'network' || this.code === 'timeout') return true;
+    return this.code === 'server' && (this.status === 429 || (this.status ?? 0) >= 500);
+  }
+}
+
+export interface TranscriptionClientOptions {
+  /** Base URL of the transcription backend, without `/transcribe`. */
+  baseUrl: string;
+  /** Per attempt, covering the upload and the transcription itself. */
+  timeoutMs?: number;
+  /** Retries after the first attempt for errors that are `retryable`. */
+  maxRetries?: number;
+  /** Sent as `X-Device-Id`, so the server rate-limits this TV on its own. */
+  deviceId?: string;
+}
+
+export const DEFAULT_TRANSCRIPTION_URL = 'http://localhost:5000';
+
+const asNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+/** Accepts this API's shape and the raw Whisper one (`transcription`, `detected_language`). */
+const parseResult = (body: unknown): TranscriptionResult | null => {
+  if (!body || typeof body !== 'object') return null;
+  const data = body as Record<string, unknown>;
+  const text = data.text ?? data.transcription;
+  if (typeof text !== 'string') return null;
+
+  const language = data.language ?? data.detected_language;
+  const segments = Array.isArray(data.segments)
+    ? data.segments
+        .filter((segment): segment is Record<string, unknown> => !!segment && typeof segment === 'object')
+        .map((segment) => ({ start: asNumber(segment.start), end: asNumber(segment.end), text: String(segment.text ?? '').trim() }))
+    : [];
+  return { text: text.trim(), language: typeof language === 'string' && language ? language : null, segments };
+};
+
+const errorMessage = (status: number, body: unknown) => {
+  const detail = body && typeof body === 'object' ? (body as Record<string, unknown>).error : undefined;
+  return typeof detail === 'string' ? detail : `Transcription failed with HTTP ${status}`;
+};
+
+const extensionFor = (type: string) => {
+  if (type.includes('webm')) return 'webm';
+  if (type.includes('ogg')) return 'ogg';
+  if (type.includes('wav')) return 'wav';
+  if (type.includes('mp4') || type.includes('m4a')) return 'm4a';
+  return 'bin';
+};
+
+const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TranscriptionError('cancelled', 'Transcription cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Client for the backend's `POST /transcribe`. Uploads go through
+ * XMLHttpRequest because fetch can't report upload progress.
+ */
+export class TranscriptionClient {
+  private baseUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private deviceId: string | undefined;
+
+  constructor({ baseUrl, timeoutMs = 60000, maxRetries = 2, deviceId }: TranscriptionClientOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+    this.maxRetries = maxRetries;
+    this.deviceId = deviceId;
+  }
+
+  /** Whether the backend's health check answers. */
+  async isAvailable(signal?: AbortSignal): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/`, { signal });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async transcribe(audio: Blob, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    const backoff = new ExponentialBackoff({ initialDelayMs: 500, maxDelayMs: 4000, maxAttempts: this.maxRetries });
+
+    for (;;) {
+      try {
+        return await this.send(audio, options);
+      } catch (err) {
+        const error = err instanceof TranscriptionError ? err : new TranscriptionError('network', String(err));
+        const delayMs = error.retryable ? backoff.next() : null;
+        if (delayMs === null) throw error;
+        options.onRetry?.({ attempt: backoff.attempt, delayMs, error });
+        await waitFor(delayMs, options.signal);
+      }
+    }
+  }
+
+  private send(audio: Blob, { signal, onProgress, language, fileName }: TranscribeOptions): Promise<TranscriptionResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TranscriptionError('cancelled', 'Transcription cancelled'));
+        return;
+      }
+
+      const form = new FormData();
+      form.append(TRANSCRIPTION_AUDIO_FIELD, audio, fileName ?? `recording.${extensionFor(audio.type)}`);
+      if (language) form.append('language', language);
+
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+
+      xhr.open('POST', `${this.baseUrl}/transcribe`);
+      if (this.deviceId) xhr.setRequestHeader('X-Device-Id', this.deviceId);
+      xhr.responseType = 'json';
+      xhr.timeout = this.timeoutMs;
+
+      xhr.upload.onprogress = (event) => {
+        onProgress?.({
+          loaded: event.loaded,
+          total: event.lengthComputable ? event.total : 0,
+          fraction: event.lengthComputable && event.total > 0 ? event.loaded / event.total : 0,
+        });
+      };
+      xhr.onload = () => {
+        settle();
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new TranscriptionError('server', errorMessage(xhr.status, xhr.response), xhr.status));
+          return;
+        }
+        const result = parseResult(xhr.response);
+        if (result) resolve(result);
+        else reject(new TranscriptionError('bad-response', 'The backend did not return a transcription'));
+      };
+      xhr.onerror = () => {
+        settle();
+        reject(new TranscriptionError('network', `Could not reach ${this.baseUrl}`));
+      };
+      xhr.ontimeout = () => {
+        settle();
+        reject(new TranscriptionError('timeout', `No response within ${Math.round(this.timeoutMs / 1000)}s`));
+      };
+      xhr.onabort = () => {
+        settle();
+        reject(new TranscriptionError('cancelled', 'Transcription cancelled'));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      xhr.send(form);
+    });
+  }
+}
+
+/** Base URL of the backend configured with `VITE_TRANSCRIBE_URL`. */
+export const transcriptionBaseUrl = () => import.meta.env.VITE_TRANSCRIBE_URL || DEFAULT_TRANSCRIPTION_URL;
+
+export const createTranscriptionClient = () =>
+  new TranscriptionClient({ baseUrl: transcriptionBaseUrl(), deviceId: getAssistantSettings().deviceId });
@@ -0,0 +1,37 @@
+/**
+ * JSON spoken between `TranscriptionClient` and the server's `POST /transcribe`.
+ * The request is multipart: the recording as `audio` and an optional BCP-47
+ * `language` hint. Errors come back as `{ error }` with a non-2xx status.
+ */
+
+/** A stretch of the transcript with its position in the audio, in seconds. */
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** Language the audio was detected or declared as, e.g. `en`; null if the engine didn't say. */
+  language: string | null;
+  segments: TranscriptionSegment[];
+}
+
+export const TRANSCRIPTION_AUDIO_FIELD = 'audio';
+
+/**
+ * Streaming mode, over a WebSocket at `TRANSCRIPTION_STREAM_PATH`: the client
+ * sends `start`, then binary frames of 16-bit mono PCM at
+ * `TRANSCRIPTION_STREAM_SAMPLE_RATE`, then `stop`. The server answers with
+ * partial hypotheses as audio arrives and one final result after `stop`.
+ */
+export const TRANSCRIPTION_STREAM_PATH = '/transcribe/stream';
+export const TRANSCRIPTION_STREAM_SAMPLE_RATE = 16000;
+
+export type TranscriptionStreamClientMessage = { type: 'start'; language?: string } | { type: 'stop' };
+
+export type TranscriptionStreamServerMessage =
+  | { type: 'partial'; text: string }
+  | { type: 'final'; result: TranscriptionResult }
+  | { type: 'error'; error: string };
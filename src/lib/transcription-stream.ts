@@ -0,0 +1,135 @@
+import { getAssistantSettings } from './assistant-settings';
+import { TranscriptionError, transcriptionBaseUrl } from './transcription-client';
+import {
+  TRANSCRIPTION_STREAM_PATH,
+  type TranscriptionResult,
+  type TranscriptionStreamClientMessage,
+  type TranscriptionStreamServerMessage,
+} from './transcription-protocol';
+
+export interface TranscriptionStreamOptions {
+  /** BCP-47 hint for the backend; omit to let it detect the language. */
+  language?: string;
+  /** The latest hypothesis for the last few seconds of speech; each one replaces the last. */
+  onPartial?: (text: string) => void;
+}
+
+/** The message in one text frame, or null if it isn't one the server sends. */
+const parseServerMessage = (data: string): TranscriptionStreamServerMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== 'object') return null;
+  const { type, text, result, error } = message as Record<string, unknown>;
+  if (type === 'partial' && typeof text === 'string') return { type, text };
+  if (type === 'error' && typeof error === 'string') return { type, error };
+  if (type === 'final' && result && typeof result === 'object' && typeof (result as TranscriptionResult).text === 'string') {
+    return { type, result: result as TranscriptionResult };
+  }
+  return null;
+};
+
+// Browsers can't set headers on WebSockets, so the device id rides in `key` as it does for live sessions.
+const toSocketUrl = (baseUrl: string) => {
+  const url = new URL(TRANSCRIPTION_STREAM_PATH, baseUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('key', getAssistantSettings().deviceId);
+  return url.toString();
+};
+
+/**
+ * One streaming transcription: PCM frames go up while the user speaks, partial
+ * hypotheses come back as they firm up, and `finish` resolves with the final
+ * result. Frames sent before the socket opens are queued.
+ */
+export class TranscriptionStream {
+  private socket: WebSocket;
+  private queued: ArrayBuffer[] = [];
+  private stopped = false;
+  private settled = false;
+  private result: Promise<TranscriptionResult>;
+  private resolveResult!: (result: TranscriptionResult) => void;
+  private rejectResult!: (error: TranscriptionError) => void;
+
+  constructor(
+    private options: TranscriptionStreamOptions = {},
+    baseUrl: string = transcriptionBaseUrl(),
+  ) {
+    this.result = new Promise((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Failures surface from `finish`; until then nobody is awaiting the result.
+    this.result.catch(() => {});
+
+    this.socket = new WebSocket(toSocketUrl(baseUrl));
+    this.socket.binaryType = 'arraybuffer';
+    this.socket.onopen = () => {
+      this.send({ type: 'start', language: options.language });
+      this.queued.splice(0).forEach((frame) => this.socket.send(frame));
+      if (this.stopped) this.send({ type: 'stop' });
+    };
+    this.socket.onmessage = (event: MessageEvent<string>) => {
+      const message = parseServerMessage(event.data);
+      if (message) this.handleMessage(message);
+      else this.fail(new TranscriptionError('bad-response', 'The transcription stream sent a message it could not read'));
+    };
+    this.socket.onerror = () => {
+      this.fail(new TranscriptionError('network', `Could not stream to ${baseUrl}`));
+    };
+    this.socket.onclose = (event) => {
+      this.fail(new TranscriptionError('network', event.reason || 'The transcription stream closed early'));
+    };
+  }
+
+  private send(message: TranscriptionStreamClientMessage) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private handleMessage(message: TranscriptionStreamServerMessage) {
+    switch (message.type) {
+      case 'partial':
+        if (!this.settled) this.options.onPartial?.(message.text);
+        break;
+      case 'final':
+        this.settled = true;
+        this.resolveResult(message.result);
+        break;
+      case 'error':
+        this.fail(new TranscriptionError('server', message.error));
+        break;
+    }
+  }
+
+  private fail(error: TranscriptionError) {
+    if (this.settled) return;
+    this.settled = true;
+    this.rejectResult(error);
+    this.socket.close();
+  }
+
+  /** One frame of 16-bit mono PCM at `TRANSCRIPTION_STREAM_SAMPLE_RATE`. */
+  sendFrame(frame: Int16Array) {
+    if (this.stopped || this.settled) return;
+    const bytes = frame.buffer.slice(frame.byteOffset, frame.byteOffset + frame.byteLength) as ArrayBuffer;
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(bytes);
+    else this.queued.push(bytes);
+  }
+
+  /** Ends the audio and waits for the final result. */
+  finish(): Promise<TranscriptionResult> {
+    if (!this.stopped) {
+      this.stopped = true;
+      if (this.socket.readyState === WebSocket.OPEN) this.send({ type: 'stop' });
+    }
+    return this.result;
+  }
+
+  cancel() {
+    this.stopped = true;
+    this.fail(new TranscriptionError('cancelled', 'Transcription cancelled'));
+  }
+}
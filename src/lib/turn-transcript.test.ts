@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { TurnTranscript } from './turn-transcript';
+
+describe('TurnTranscript', () => {
+  it('accumulates deltas per speaker as trimmed captions', () => {
+    const transcript = new TurnTranscript();
+    expect(transcript.append('user', ' Show me')).toEqual({ speaker: 'user', text: 'Show me' });
+    expect(transcript.append('user', ' comedies ')).toEqual({ speaker: 'user', text: 'Show me comedies' });
+    expect(transcript.append('model', 'Here you go.')).toEqual({ speaker: 'model', text: 'Here you go.' });
+  });
+
+  it('completes the turn with both sides and any actions, then starts afresh', () => {
+    const transcript = new TurnTranscript();
+    transcript.append('user', 'Open Plex');
+    const action = { name: 'open_app', args: { app: 'Plex' }, response: { result: 'ok' } };
+    transcript.recordAction(action);
+    transcript.append('model', 'Opening Plex.');
+
+    const turn = transcript.complete();
+    expect(turn).toMatchObject({ userText: 'Open Plex', modelText: 'Opening Plex.', actions: [action] });
+    expect(turn?.startedAt).toBeInstanceOf(Date);
+    expect(transcript.complete()).toBeNull();
+  });
+
+  it('counts a turn with only an action', () => {
+    const transcript = new TurnTranscript();
+    transcript.recordAction({ name: 'switch_tab', args: { tab: 'apps' }, response: { result: 'ok' } });
+    expect(transcript.complete()).toMatchObject({ userText: '', modelText: '' });
+  });
+
+  it('drops turns with nothing but whitespace', () => {
+    const transcript = new TurnTranscript();
+    transcript.append('user', '  ');
+    transcript.append('model', '\n');
+    expect(transcript.complete()).toBeNull();
+  });
+
+  it('forgets everything on reset', () => {
+    const transcript = new TurnTranscript();
+    transcript.append('user', 'never mind');
+    transcript.reset();
+    expect(transcript.append('user', 'hello').text).toBe('hello');
+  });
+});
@@ -0,0 +1,70 @@
+export type CaptionSpeaker = 'user' | 'model';
+
+export interface CaptionEvent {
+  speaker: CaptionSpeaker;
+  /** Everything transcribed for this speaker so far in the current turn. */
+  text: string;
+}
+
+/** A launcher tool the model called during a turn, and what came back. */
+export interface TurnAction {
+  name: string;
+  args: Record<string, unknown>;
+  response: Record<string, unknown>;
+}
+
+export interface CompletedTurn {
+  startedAt: Date;
+  userText: string;
+  modelText: string;
+  actions: TurnAction[];
+  /** BCP-47 code of what the user said, once identified. */
+  language?: string;
+}
+
+/**
+ * Accumulates streaming input/output transcription deltas for one exchange.
+ * Providers feed it deltas and surface the running text as captions.
+ */
+export class TurnTranscript {
+  private startedAt: Date | null = null;
+  private userText = '';
+  private modelText = '';
+  private actions: TurnAction[] = [];
+
+  append(speaker: CaptionSpeaker, delta: string): CaptionEvent {
+    this.startedAt ??= new Date();
+    if (speaker === 'user') {
+      this.userText += delta;
+      return { speaker, text: this.userText.trim() };
+    }
+    this.modelText += delta;
+    return { speaker, text: this.modelText.trim() };
+  }
+
+  recordAction(action: TurnAction) {
+    this.startedAt ??= new Date();
+    this.actions.push(action);
+  }
+
+  /** Ends the exchange; null if nothing was said or done on either side. */
+  complete(): CompletedTurn | null {
+    const turn = this.startedAt && (this.userText.trim() || this.modelText.trim() || this.actions.length > 0)
+      ? {
+          startedAt: this.startedAt,
+          userText: this.userText.trim(),
+          modelText: this.modelText.trim(),
+          actions: this.actions,
+        }
+      : null;
+    this.reset();
+    return turn;
+  }
+
+  reset() {
+    this.startedAt = null;
+    this.userText = '';
+    this.modelText = '';
+    this.actions = [];
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechGate, VoiceActivityDetector, type VoiceActivityEvent } from './voice-activity';
+
+const FRAME_MS = 100;
+
+// A 100 ms frame at 16 kHz of a 440 Hz tone with the given peak amplitude (0 to 1).
+const tone = (amplitude: number) =>
+  Int16Array.from({ length: 1600 }, (_, i) => Math.round(Math.sin((2 * Math.PI * 440 * i) / 16000) * amplitude * 32767));
+
+const quiet = () => tone(0.0005);
+const loud = () => tone(0.3);
+
+const run = (detector: VoiceActivityDetector, frames: Int16Array[]) =>
+  frames.map((frame) => detector.process(frame)).filter((event): event is VoiceActivityEvent => event !== null);
+
+describe('VoiceActivityDetector', () => {
+  it('reports an utterance once speech lasts long enough, and its end after the hangover', () => {
+    const detector = new VoiceActivityDetector({ frameMs: FRAME_MS, minSpeechMs: 200, hangoverMs: 300 });
+    expect(run(detector, [quiet(), quiet(), loud()])).toEqual([]);
+    expect(detector.process(loud())).toBe('speechStart');
+    expect(detector.isSpeaking).toBe(true);
+    expect(run(detector, [quiet(), quiet()])).toEqual([]);
+    expect(detector.process(quiet())).toBe('speechEnd');
+    expect(detector.isSpeaking).toBe(false);
+  });
+
+  it('ignores clicks shorter than the minimum speech length', () => {
+    const detector = new VoiceActivityDetector({ frameMs: FRAME_MS, minSpeechMs: 300 });
+    expect(run(detector, [quiet(), loud(), loud(), quiet(), loud(), quiet()])).toEqual([]);
+  });
+
+  it('keeps an utterance going through pauses shorter than the hangover', () => {
+    const detector = new VoiceActivityDetector({ frameMs: FRAME_MS, minSpeechMs: 100, hangoverMs: 500 });
+    expect(run(detector, [loud(), quiet(), quiet(), loud(), quiet(), quiet()])).toEqual(['speechStart']);
+  });
+
+  it('raises the bar as the background gets louder', () => {
+    const murmur = tone(0.01);
+    const fresh = new VoiceActivityDetector({ frameMs: FRAME_MS, minSpeechMs: 100 });
+    expect(fresh.process(murmur)).toBe('speechStart');
+
+    const settled = new VoiceActivityDetector({ frameMs: FRAME_MS, minSpeechMs: 100 });
+    run(settled, Array.from({ length: 300 }, () => tone(0.003)));
+    expect(settled.process(murmur)).toBeNull();
+    expect(settled.process(loud())).toBe('speechStart');
+  });
+});
+
+describe('SpeechGate', () => {
+  it('holds back pre-roll until speech starts, then passes everything until it ends', () => {
+    const gate = new SpeechGate<number>({ frameMs: FRAME_MS, minSpeechMs: 100, hangoverMs: 200 }, 2);
+    expect(gate.push(1, quiet()).chunks).toEqual([]);
+    expect(gate.push(2, quiet()).chunks).toEqual([]);
+    expect(gate.push(3, quiet()).chunks).toEqual([]);
+    expect(gate.push(4, loud())).toEqual({ chunks: [2, 3, 4], event: 'speechStart' });
+    expect(gate.push(5, quiet())).toEqual({ chunks: [5], event: null });
+    expect(gate.push(6, quiet())).toEqual({ chunks: [6], event: 'speechEnd' });
+    expect(gate.push(7, quiet()).chunks).toEqual([]);
+  });
+});
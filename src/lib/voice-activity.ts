@@ -0,0 +1,125 @@
+export interface VoiceActivityOptions {
+  /** Length of each frame passed to `process`, in milliseconds. */
+  frameMs: number;
+  /** How far above the noise floor (in dB) a frame must be to count as speech. */
+  thresholdDb?: number;
+  /** Speech must last this long before it starts an utterance, to skip clicks. */
+  minSpeechMs?: number;
+  /** Silence needed after speech before the utterance ends. */
+  hangoverMs?: number;
+}
+
+export type VoiceActivityEvent = 'speechStart' | 'speechEnd';
+
+// Quietest level the noise floor may settle at, so digital silence doesn't make every breath "speech".
+const MIN_NOISE_FLOOR_DB = -65;
+
+const frameLevelDb = (frame: Int16Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const sample = frame[i] / 32768;
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / Math.max(1, frame.length));
+  return 20 * Math.log10(rms + 1e-9);
+};
+
+/**
+ * Energy-based voice activity detector for open-mic mode. Tracks the
+ * background level and reports when an utterance starts and ends.
+ */
+export class VoiceActivityDetector {
+  private noiseFloorDb = MIN_NOISE_FLOOR_DB;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private speaking = false;
+  private thresholdDb: number;
+  private minSpeechMs: number;
+  private hangoverMs: number;
+
+  constructor(private options: VoiceActivityOptions) {
+    this.thresholdDb = options.thresholdDb ?? 12;
+    this.minSpeechMs = options.minSpeechMs ?? 200;
+    this.hangoverMs = options.hangoverMs ?? 800;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  process(frame: Int16Array): VoiceActivityEvent | null {
+    const levelDb = frameLevelDb(frame);
+    const isVoiced = levelDb > this.noiseFloorDb + this.thresholdDb;
+
+    if (!isVoiced) {
+      // Follow the background quickly downwards and slowly upwards.
+      const rate = levelDb < this.noiseFloorDb ? 0.3 : 0.02;
+      this.noiseFloorDb = Math.max(MIN_NOISE_FLOOR_DB, this.noiseFloorDb + (levelDb - this.noiseFloorDb) * rate);
+    }
+
+    if (isVoiced) {
+      this.silenceMs = 0;
+      this.speechMs += this.options.frameMs;
+      if (!this.speaking && this.speechMs >= this.minSpeechMs) {
+        this.speaking = true;
+        return 'speechStart';
+      }
+      return null;
+    }
+
+    this.speechMs = 0;
+    if (this.speaking) {
+      this.silenceMs += this.options.frameMs;
+      if (this.silenceMs >= this.hangoverMs) {
+        this.speaking = false;
+        this.silenceMs = 0;
+        return 'speechEnd';
+      }
+    }
+    return null;
+  }
+
+  reset() {
+    this.noiseFloorDb = MIN_NOISE_FLOOR_DB;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speaking = false;
+  }
+}
+
+/**
+ * Passes open-mic audio through only while someone is speaking. A few frames
+ * of pre-roll are held back so the start of the first word isn't clipped.
+ */
+export class SpeechGate<T> {
+  private detector: VoiceActivityDetector;
+  private preRoll: T[] = [];
+
+  constructor(
+    options: VoiceActivityOptions,
+    private preRollFrames = 3,
+  ) {
+    this.detector = new VoiceActivityDetector(options);
+  }
+
+  get isOpen(): boolean {
+    return this.detector.isSpeaking;
+  }
+
+  /** Returns the chunks to send now, and whether an utterance started or ended with this frame. */
+  push(chunk: T, frame: Int16Array): { chunks: T[]; event: VoiceActivityEvent | null } {
+    const event = this.detector.process(frame);
+
+    if (event === 'speechStart') return { chunks: [...this.preRoll.splice(0), chunk], event };
+    if (this.detector.isSpeaking || event === 'speechEnd') return { chunks: [chunk], event };
+
+    this.preRoll.push(chunk);
+    if (this.preRoll.length > this.preRollFrames) this.preRoll.shift();
+    return { chunks: [], event };
+  }
+
+  reset() {
+    this.detector.reset();
+    this.preRoll = [];
+  }
+}
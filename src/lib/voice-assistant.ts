@@ -0,0 +1,71 @@
+import { GeminiLiveAudio } from './gemini-live-audio';
+import { MockVoiceProvider } from './mock-voice-provider';
+import { getAssistantSettings } from './assistant-settings';
+import { createSpeechRecognizer } from './speech-recognizer';
+import { VoiceCommandProvider } from './voice-command-provider';
+import type { AssistantState } from './assistant-state';
+import type { CaptionEvent, CompletedTurn } from './turn-transcript';
+import type { VoiceCommand } from './voice-commands';
+
+/**
+ * Contract between the AI overlay and a live voice backend. Providers own the
+ * transport and audio I/O; the overlay only drives them through this surface.
+ */
+export interface VoiceAssistantProvider {
+  /** Every connection, capture and playback transition, including errors. */
+  onStateChange?: (state: AssistantState) => void;
+  /** Text parts of the model's reply, as they arrive. */
+  onText?: (text: string) => void;
+  /** Raw 24 kHz PCM of the model's reply, after it has been queued for playback. */
+  onAudio?: (pcm: Uint8Array) => void;
+  /** Running transcript of the user's speech or the model's reply, for live captions. */
+  onCaption?: (caption: CaptionEvent) => void;
+  /** Both sides of an exchange once the model has finished its turn. */
+  onTurnComplete?: (turn: CompletedTurn) => void;
+  /** A basic command recognised on-device, for the UI to carry out; the model never sees it. */
+  onLocalCommand?: (command: VoiceCommand) => void;
+
+  /** Opens the session. Safe to call again while already connected. */
+  connect(): Promise<void>;
+  /** Opens the microphone and streams it to the session, connecting first if needed. */
+  startRecording(): Promise<void>;
+  stopRecording(): void;
+  /** Sends a typed turn over the same session, connecting first if needed. */
+  sendText(text: string): Promise<void>;
+  /** Re-sends earlier turns as context, so a past conversation can be picked up again. */
+  loadHistory(turns: CompletedTurn[]): Promise<void>;
+  /** Shares what is on screen as session context; sent again whenever it changes. */
+  setScreenContext(snapshot: string): void;
+  /** Silences spoken replies without stopping them; their transcripts still arrive. */
+  setPlaybackMuted(muted: boolean): void;
+  /** Stops the reply that is currently playing. */
+  interrupt(): void;
+  /** Closes the current session and opens a fresh one. */
+  reset(): Promise<void>;
+  getIsRecording(): boolean;
+  /** Closes the session and releases all audio resources. */
+  destroy(): void;
+}
+
+export type VoiceProviderKind = 'gemini' | 'mock';
+
+export const getConfiguredProviderKind = (): VoiceProviderKind =>
+  import.meta.env.VITE_VOICE_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
+const createProvider = (kind: VoiceProviderKind): VoiceAssistantProvider => {
+  switch (kind) {
+    case 'mock':
+      return new MockVoiceProvider();
+    default:
+      return new GeminiLiveAudio();
+  }
+};
+
+/** The configured provider, behind the local command grammar when that is turned on and can run. */
+export const createVoiceAssistant = (
+  kind: VoiceProviderKind = getConfiguredProviderKind(),
+): VoiceAssistantProvider => {
+  const provider = createProvider(kind);
+  const recognizer = getAssistantSettings().localCommandsEnabled ? createSpeechRecognizer() : null;
+  return recognizer ? new VoiceCommandProvider(provider, recognizer) : provider;
+};
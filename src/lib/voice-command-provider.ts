@@ -0,0 +1,156 @@
+import { getAssistantSettings, type TalkMode } from './assistant-settings';
+import type { AssistantState } from './assistant-state';
+import type { SpeechRecognizer, SpeechRecognizerError } from './speech-recognizer';
+import type { CaptionEvent, CompletedTurn } from './turn-transcript';
+import { matchVoiceCommand, voiceCommandAction, type VoiceCommand } from './voice-commands';
+import type { VoiceAssistantProvider } from './voice-assistant';
+
+/**
+ * Listens with a local speech recognizer instead of streaming the mic to the
+ * model. Utterances the command grammar knows are handed to `onLocalCommand`;
+ * anything else goes to the wrapped provider as a text turn. If the recognizer
+ * can't run, listening falls back to the wrapped provider's own audio.
+ */
+export class VoiceCommandProvider implements VoiceAssistantProvider {
+  private listening = false;
+  private handedOff = false;
+  private talkMode: TalkMode = 'toggle';
+  private innerState: AssistantState = { type: 'idle' };
+
+  public onStateChange?: (state: AssistantState) => void;
+  public onText?: (text: string) => void;
+  public onAudio?: (pcm: Uint8Array) => void;
+  public onCaption?: (caption: CaptionEvent) => void;
+  public onTurnComplete?: (turn: CompletedTurn) => void;
+  public onLocalCommand?: (command: VoiceCommand) => void;
+
+  constructor(private inner: VoiceAssistantProvider, private recognizer: SpeechRecognizer) {
+    inner.onStateChange = (state) => {
+      this.innerState = state;
+      // While the recognizer has the mic, the session at rest still reads as listening.
+      const resting = state.type === 'idle' || state.type === 'connected';
+      this.onStateChange?.(this.listening && resting ? { type: 'listening' } : state);
+    };
+    inner.onText = (text) => this.onText?.(text);
+    inner.onAudio = (pcm) => this.onAudio?.(pcm);
+    inner.onCaption = (caption) => this.onCaption?.(caption);
+    inner.onTurnComplete = (turn) => this.onTurnComplete?.(turn);
+
+    recognizer.onResult = ({ transcript, isFinal }) => {
+      if (isFinal) this.handleUtterance(transcript);
+      else if (transcript.trim()) this.onCaption?.({ speaker: 'user', text: transcript.trim() });
+    };
+    recognizer.onError = (error) => this.handleRecognizerError(error);
+    recognizer.onEnd = () => {
+      // Continuous recognition still ends after a long silence; open mic keeps going.
+      if (this.listening && this.talkMode === 'openMic') this.recognizer.start(this.recognizerOptions());
+      else this.stopListening();
+    };
+  }
+
+  private recognizerOptions() {
+    const { language } = getAssistantSettings();
+    return { continuous: this.talkMode === 'openMic', language: language === 'auto' ? navigator.language : language };
+  }
+
+  private stopListening() {
+    if (!this.listening) return;
+    this.listening = false;
+    this.onStateChange?.(this.innerState);
+  }
+
+  private handleUtterance(transcript: string) {
+    const text = transcript.trim();
+    if (!text) return;
+    if (this.talkMode !== 'openMic') this.stopListening();
+
+    const command = matchVoiceCommand(text);
+    if (!command) {
+      this.inner.sendText(text);
+      return;
+    }
+
+    this.inner.interrupt();
+    this.onTurnComplete?.({ startedAt: new Date(), userText: text, modelText: '', actions: [voiceCommandAction(command)] });
+    this.onLocalCommand?.(command);
+  }
+
+  private handleRecognizerError(error: SpeechRecognizerError) {
+    switch (error) {
+      case 'no-speech':
+        break;
+      case 'microphone-denied':
+      case 'microphone-unavailable':
+        this.listening = false;
+        this.onStateChange?.({ type: 'error', code: error });
+        break;
+      case 'unavailable':
+        this.handedOff = true;
+        if (this.listening) {
+          this.listening = false;
+          this.inner.startRecording();
+        }
+        break;
+    }
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  async startRecording(): Promise<void> {
+    if (this.handedOff) return this.inner.startRecording();
+    if (this.listening) return;
+
+    this.talkMode = getAssistantSettings().talkMode;
+    this.listening = true;
+    this.onStateChange?.({ type: 'listening' });
+    this.recognizer.start(this.recognizerOptions());
+  }
+
+  stopRecording(): void {
+    if (this.handedOff) {
+      this.inner.stopRecording();
+      return;
+    }
+    // Any speech so far still arrives as a final result after this.
+    this.recognizer.stop();
+    this.stopListening();
+  }
+
+  sendText(text: string): Promise<void> {
+    return this.inner.sendText(text);
+  }
+
+  loadHistory(turns: CompletedTurn[]): Promise<void> {
+    return this.inner.loadHistory(turns);
+  }
+
+  setScreenContext(snapshot: string): void {
+    this.inner.setScreenContext(snapshot);
+  }
+
+  setPlaybackMuted(muted: boolean): void {
+    this.inner.setPlaybackMuted(muted);
+  }
+
+  interrupt(): void {
+    this.inner.interrupt();
+  }
+
+  reset(): Promise<void> {
+    this.recognizer.destroy();
+    this.listening = false;
+    return this.inner.reset();
+  }
+
+  getIsRecording(): boolean {
+    return this.listening || this.inner.getIsRecording();
+  }
+
+  destroy(): void {
+    this.listening = false;
+    this.recognizer.destroy();
+    this.inner.destroy();
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { matchVoiceCommand, voiceCommandAction } from './voice-commands';
+
+describe('matchVoiceCommand', () => {
+  it('maps remote-style phrases to keys', () => {
+    expect(matchVoiceCommand('Next')).toEqual({ type: 'key', key: 'ArrowRight' });
+    expect(matchVoiceCommand('scroll down.')).toEqual({ type: 'key', key: 'ArrowDown' });
+    expect(matchVoiceCommand('select this')).toEqual({ type: 'key', key: 'Enter' });
+    expect(matchVoiceCommand('go back')).toEqual({ type: 'key', key: 'Escape' });
+  });
+
+  it('maps play and pause to the media keys', () => {
+    expect(matchVoiceCommand('pause')).toEqual({ type: 'key', key: 'MediaPause' });
+    expect(matchVoiceCommand('Stop.')).toEqual({ type: 'key', key: 'MediaPause' });
+    expect(matchVoiceCommand('resume please')).toEqual({ type: 'key', key: 'MediaPlay' });
+  });
+
+  it('ignores politeness and the wake phrase', () => {
+    expect(matchVoiceCommand('Hey Atlas, go back please')).toEqual({ type: 'key', key: 'Escape' });
+    expect(matchVoiceCommand('could you go home now')).toEqual({ type: 'switchTab', tabId: 'home' });
+  });
+
+  it('finds tabs and apps by name', () => {
+    expect(matchVoiceCommand('open settings')).toEqual({ type: 'switchTab', tabId: 'settings' });
+    expect(matchVoiceCommand('take me to the library tab')).toEqual({ type: 'switchTab', tabId: 'library' });
+    expect(matchVoiceCommand('launch the YouTube app')).toEqual({ type: 'openApp', appName: 'YouTube' });
+    expect(matchVoiceCommand('Open Disney+')).toEqual({ type: 'openApp', appName: 'Disney+' });
+  });
+
+  it('leaves anything else for the assistant', () => {
+    expect(matchVoiceCommand('')).toBeNull();
+    expect(matchVoiceCommand('what should I watch tonight')).toBeNull();
+    expect(matchVoiceCommand('pause the music in the kitchen')).toBeNull();
+  });
+});
+
+describe('voiceCommandAction', () => {
+  it('names actions like the matching assistant tools', () => {
+    expect(voiceCommandAction({ type: 'key', key: 'Enter' }).name).toBe('press_key');
+    expect(voiceCommandAction({ type: 'openApp', appName: 'Plex' }).args).toEqual({ app: 'Plex' });
+    expect(voiceCommandAction({ type: 'switchTab', tabId: 'apps' }).args).toEqual({ tab: 'apps' });
+  });
+});
@@ -0,0 +1,109 @@
+import { dispatchLauncherCommand, matchesName } from './launcher-commands';
+import { launcherApps, launcherTabs } from './launcher-data';
+import type { TurnAction } from './turn-transcript';
+
+/**
+ * Local grammar for basic remote-style voice commands, so "go home", "next" or
+ * "pause" work without a round trip to the model. Anything it doesn't recognise is
+ * left for the assistant.
+ */
+export type NavigationKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight' | 'Enter' | 'Escape' | 'MediaPlay' | 'MediaPause';
+
+export type VoiceCommand =
+  | { type: 'key'; key: NavigationKey }
+  | { type: 'openApp'; appName: string }
+  | { type: 'switchTab'; tabId: string };
+
+export const navigationKeyLabels: Record<NavigationKey, string> = {
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Enter: 'OK',
+  Escape: 'Back',
+  MediaPlay: 'Play',
+  MediaPause: 'Pause',
+};
+
+const keyPhrases: Record<NavigationKey, string[]> = {
+  ArrowRight: ['next', 'next one', 'right', 'go right', 'move right', 'skip'],
+  ArrowLeft: ['previous', 'previous one', 'left', 'go left', 'move left'],
+  ArrowDown: ['down', 'go down', 'move down', 'scroll down'],
+  ArrowUp: ['up', 'go up', 'move up', 'scroll up'],
+  Enter: ['ok', 'okay', 'select', 'select this', 'choose this', 'open this', 'open it', 'enter'],
+  Escape: ['back', 'go back', 'close', 'exit', 'cancel'],
+  MediaPlay: ['play', 'resume', 'play it', 'keep playing'],
+  MediaPause: ['pause', 'stop', 'pause it', 'stop playing'],
+};
+
+const keyCommands = new Map(
+  Object.entries(keyPhrases).flatMap(([key, phrases]) => phrases.map((phrase) => [phrase, key as NavigationKey])),
+);
+
+// Politeness and wake-up words that don't change what was asked.
+const FILLER = /^(?:hey atlas |atlas |ok atlas |please |can you |could you |would you )+|(?: please| now| for me)+$/g;
+const DESTINATION = /^(?:go to|open|launch|start|show me|show|switch to|take me to)? ?(?:the |my )?(.+?)(?: app| tab| page| screen)?$/;
+
+const normalizeUtterance = (utterance: string) =>
+  utterance
+    .toLowerCase()
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(FILLER, '')
+    .trim();
+
+/** The command an utterance asks for, or null if it's one for the assistant. */
+export const matchVoiceCommand = (utterance: string): VoiceCommand | null => {
+  const phrase = normalizeUtterance(utterance);
+  if (!phrase) return null;
+
+  const key = keyCommands.get(phrase);
+  if (key) return { type: 'key', key };
+  if (phrase === 'home' || phrase === 'go home') return { type: 'switchTab', tabId: 'home' };
+
+  const destination = DESTINATION.exec(phrase)?.[1];
+  if (!destination) return null;
+  const tab = launcherTabs.find((candidate) => matchesName(candidate.id, destination) || matchesName(candidate.label, destination));
+  if (tab) return { type: 'switchTab', tabId: tab.id };
+  const app = launcherApps.find((candidate) => matchesName(candidate.name, destination));
+  if (app) return { type: 'openApp', appName: app.name };
+  return null;
+};
+
+/** The command as a history action, named like the assistant's equivalent tool. */
+export const voiceCommandAction = (command: VoiceCommand): TurnAction => {
+  switch (command.type) {
+    case 'key':
+      return { name: 'press_key', args: { key: command.key }, response: { result: 'ok' } };
+    case 'openApp':
+      return { name: 'open_app', args: { app: command.appName }, response: { result: 'ok' } };
+    case 'switchTab':
+      return { name: 'switch_tab', args: { tab: command.tabId }, response: { result: 'ok' } };
+  }
+};
+
+// Long enough for a route change or the overlay closing to re-enable the screen's key handlers.
+const SETTLE_MS = 150;
+
+/**
+ * Carries out a command the way the remote would: keys go through the same
+ * window keydown listeners as `useKeyboardNavigation`, and app and tab
+ * changes through the launcher command bus, from the home screen if need be.
+ * Call it once the assistant overlay is closing, so the screen has focus back.
+ */
+export const runVoiceCommand = (command: VoiceCommand, navigate: (path: string) => void) => {
+  if (command.type === 'switchTab') {
+    const path = launcherTabs.find((tab) => tab.id === command.tabId)?.path;
+    if (path) {
+      navigate(path);
+      return;
+    }
+  }
+  if (command.type !== 'key' && window.location.pathname !== '/') navigate('/');
+
+  setTimeout(() => {
+    if (command.type === 'key') window.dispatchEvent(new KeyboardEvent('keydown', { key: command.key }));
+    else dispatchLauncherCommand(command);
+  }, SETTLE_MS);
+};
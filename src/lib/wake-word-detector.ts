@@ -0,0 +1,132 @@
+import { MFCC_HOP_MS, MfccExtractor, extractFeatures, type FeatureFrame } from './mfcc';
+
+/** An enrolled example of the wake phrase, as MFCC frames with the silence trimmed. */
+export type WakeWordTemplate = number[][];
+
+export interface WakeWordDetection {
+  /** Position in the audio fed so far where the phrase ended. */
+  timeMs: number;
+  distance: number;
+  threshold: number;
+}
+
+// Frames quieter than this never count as speech.
+const SPEECH_FLOOR_DB = -50;
+// How often a window is scored, and how long to stay quiet after a trigger.
+const CHECK_EVERY_FRAMES = 5;
+// The window is longer than the templates, so a slower phrase still fits.
+const WINDOW_STRETCH = 1.5;
+const REFRACTORY_MS = 1500;
+// Distance used as the baseline when there is only one template to compare.
+const DEFAULT_BASELINE = 6;
+
+const frameDistance = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+/**
+ * Subsequence dynamic time warping: the best alignment of the whole template
+ * against any stretch of `window` that ends within its last `tailFrames`,
+ * divided by the template length.
+ */
+const dtw = (template: ArrayLike<number>[], window: ArrayLike<number>[], tailFrames = CHECK_EVERY_FRAMES * 2) => {
+  // previous[j]: best cost of matching template[0..i) ending at window[j - 1]; any start is free.
+  let previous = new Float64Array(window.length + 1);
+  let current = new Float64Array(window.length + 1);
+
+  for (let i = 1; i <= template.length; i++) {
+    current[0] = Infinity;
+    for (let j = 1; j <= window.length; j++) {
+      current[j] = frameDistance(template[i - 1], window[j - 1]) + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  let best = Infinity;
+  for (let j = Math.max(1, window.length - tailFrames + 1); j <= window.length; j++) best = Math.min(best, previous[j]);
+  return best / template.length;
+};
+
+/** Drops leading and trailing silence so the template is just the phrase. */
+const trimSilence = (frames: FeatureFrame[]) => {
+  const loudest = Math.max(...frames.map((frame) => frame.energyDb));
+  const isSpeech = (frame: FeatureFrame) => frame.energyDb > Math.max(SPEECH_FLOOR_DB, loudest - 30);
+  const first = frames.findIndex(isSpeech);
+  const last = frames.length - 1 - [...frames].reverse().findIndex(isSpeech);
+  return first < 0 ? [] : frames.slice(first, last + 1);
+};
+
+/** Builds a template from a 16 kHz recording of the wake phrase; null if it was silent. */
+export const createWakeWordTemplate = (samples: Float32Array): WakeWordTemplate | null => {
+  const frames = trimSilence(extractFeatures(samples));
+  // Anything under ~0.3 s is a click, not "Hey Atlas".
+  if (frames.length < 300 / MFCC_HOP_MS) return null;
+  return frames.map((frame) => Array.from(frame.mfcc));
+};
+
+/**
+ * Matches the templates against a sliding window of live features. Sensitivity
+ * (0 to 1) scales how far from the templates a window may be and still count:
+ * the baseline is how much the enrolled examples differ from each other.
+ */
+export class WakeWordDetector {
+  private extractor = new MfccExtractor();
+  private history: FeatureFrame[] = [];
+  private framesSeen = 0;
+  private quietUntilFrame = 0;
+  private windowFrames: number;
+  private threshold: number;
+
+  constructor(
+    private templates: WakeWordTemplate[],
+    sensitivity: number,
+  ) {
+    this.windowFrames = Math.ceil(Math.max(0, ...templates.map((template) => template.length)) * WINDOW_STRETCH);
+
+    const pairs: number[] = [];
+    templates.forEach((a, i) =>
+      templates.slice(i + 1).forEach((b) => pairs.push((dtw(a, b, b.length) + dtw(b, a, a.length)) / 2)),
+    );
+    const baseline = pairs.length > 0 ? pairs.reduce((sum, d) => sum + d, 0) / pairs.length : DEFAULT_BASELINE;
+    this.threshold = baseline * (1 + 0.5 * Math.min(1, Math.max(0, sensitivity)));
+  }
+
+  /** Feeds 16 kHz samples; returns a detection when the phrase has just been said. */
+  push(samples: Float32Array): WakeWordDetection | null {
+    if (this.templates.length === 0) return null;
+
+    let detection: WakeWordDetection | null = null;
+    for (const frame of this.extractor.push(samples)) {
+      this.history.push(frame);
+      this.framesSeen++;
+      if (this.history.length > this.windowFrames) this.history.shift();
+
+      if (detection || this.framesSeen % CHECK_EVERY_FRAMES !== 0) continue;
+      if (this.framesSeen < this.quietUntilFrame || this.history.length < this.windowFrames) continue;
+      detection = this.score();
+    }
+    return detection;
+  }
+
+  private score(): WakeWordDetection | null {
+    // Skip windows that are mostly silence.
+    const speechFrames = this.history.filter((frame) => frame.energyDb > SPEECH_FLOOR_DB).length;
+    if (speechFrames < this.history.length / 4) return null;
+
+    const window = this.history.map((frame) => frame.mfcc);
+    const distance = Math.min(...this.templates.map((template) => dtw(template, window)));
+    if (distance > this.threshold) return null;
+
+    this.quietUntilFrame = this.framesSeen + REFRACTORY_MS / MFCC_HOP_MS;
+    return { timeMs: this.framesSeen * MFCC_HOP_MS, distance, threshold: this.threshold };
+  }
+
+  reset() {
+    this.extractor.reset();
+    this.history = [];
+    this.framesSeen = 0;
+    this.quietUntilFrame = 0;
+  }
+}
@@ -0,0 +1,162 @@
+import { MFCC_SAMPLE_RATE } from './mfcc';
+import { MicCapture } from './mic-capture';
+import { Resampler } from './resampler';
+import { parseWav } from './wav';
+import type { WakeWordDetection, WakeWordTemplate } from './wake-word-detector';
+import type { WakeWordWorkerRequest, WakeWordWorkerResponse } from './wake-word.worker';
+
+export const WAKE_PHRASE = 'Hey Atlas';
+
+/**
+ * Enrolled examples of the wake phrase, persisted to localStorage. The spotter
+ * matches against these, so it works for whoever trained it, in any language.
+ */
+const STORAGE_KEY = 'atlas.wake-word-templates';
+
+const listeners = new Set<() => void>();
+let cached: WakeWordTemplate[] | null = null;
+
+const load = (): WakeWordTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.error('Failed to read wake word templates:', e);
+  }
+  return [];
+};
+
+const save = (templates: WakeWordTemplate[]) => {
+  cached = templates;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  listeners.forEach((listener) => listener());
+};
+
+export const getWakeWordTemplates = (): WakeWordTemplate[] => {
+  if (!cached) cached = load();
+  return cached;
+};
+
+export const addWakeWordTemplate = (template: WakeWordTemplate) => {
+  save([...getWakeWordTemplates(), template]);
+};
+
+export const clearWakeWordTemplates = () => {
+  save([]);
+};
+
+export const subscribeWakeWordTemplates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const createWorker = () =>
+  new Worker(new URL('./wake-word.worker.ts', import.meta.url), { type: 'module' });
+
+const toFloat32 = (frame: Int16Array) => Float32Array.from(frame, (sample) => sample / 32768);
+
+/** Decodes a WAV file to mono samples at the spotter's 16 kHz. */
+export const decodeWavFile = async (file: File): Promise<Float32Array> => {
+  const { sampleRate, samples } = parseWav(await file.arrayBuffer());
+  return new Resampler(sampleRate, MFCC_SAMPLE_RATE).process(samples);
+};
+
+/** Records `durationMs` of 16 kHz mic audio, for enrolling the wake phrase. */
+export const recordWakeWordSample = async (durationMs = 2000): Promise<Float32Array> => {
+  const mic = new MicCapture(MFCC_SAMPLE_RATE);
+  const frames: Int16Array[] = [];
+  try {
+    await mic.resume();
+    await mic.start((frame) => frames.push(frame));
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+  } finally {
+    mic.close();
+  }
+
+  const samples = new Float32Array(frames.reduce((total, frame) => total + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    samples.set(toFloat32(frame), offset);
+    offset += frame.length;
+  }
+  return samples;
+};
+
+/**
+ * Runs recordings through the same detector the live listener uses, so the
+ * spotter and its sensitivity can be checked without a microphone.
+ */
+export const testWakeWord = (
+  recordings: Float32Array[],
+  templates: WakeWordTemplate[],
+  sensitivity: number,
+): Promise<WakeWordDetection[][]> => {
+  const worker = createWorker();
+  const send = (message: WakeWordWorkerRequest) => worker.postMessage(message);
+  const results: WakeWordDetection[][] = [];
+
+  return new Promise<WakeWordDetection[][]>((resolve, reject) => {
+    worker.onerror = (e) => reject(new Error(e.message));
+    worker.onmessage = (event: MessageEvent<WakeWordWorkerResponse>) => {
+      if (event.data.type !== 'testResult') return;
+      results[event.data.id] = event.data.detections;
+      if (Object.keys(results).length === recordings.length) resolve(results);
+    };
+    send({ type: 'configure', templates, sensitivity });
+    recordings.forEach((samples, id) => send({ type: 'test', id, samples }));
+    if (recordings.length === 0) resolve(results);
+  }).finally(() => worker.terminate());
+};
+
+/**
+ * Keeps the mic open and the spotter running in a worker until stopped.
+ * Audio never leaves the device.
+ */
+export class WakeWordListener {
+  private worker: Worker | null = null;
+  private mic: MicCapture | null = null;
+
+  public onWake?: (detection: WakeWordDetection) => void;
+  public onError?: (error: unknown) => void;
+
+  async start(templates: WakeWordTemplate[], sensitivity: number): Promise<void> {
+    if (this.worker) return;
+
+    const worker = createWorker();
+    const mic = new MicCapture(MFCC_SAMPLE_RATE);
+    this.worker = worker;
+    this.mic = mic;
+
+    worker.onmessage = (event: MessageEvent<WakeWordWorkerResponse>) => {
+      if (event.data.type === 'detected') this.onWake?.(event.data.detection);
+    };
+    worker.postMessage({ type: 'configure', templates, sensitivity } satisfies WakeWordWorkerRequest);
+
+    try {
+      await mic.resume();
+      // If `stop` runs while the mic is opening, closing `mic` releases it again.
+      await mic.start((frame) => {
+        const samples = toFloat32(frame);
+        this.worker?.postMessage({ type: 'audio', samples } satisfies WakeWordWorkerRequest, [samples.buffer]);
+      });
+    } catch (err) {
+      // A failure after `stop` belongs to a listener nobody is waiting on any more.
+      if (this.mic !== mic) return;
+      this.stop();
+      this.onError?.(err);
+    }
+  }
+
+  isListening(): boolean {
+    return this.worker !== null;
+  }
+
+  stop(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.mic?.close();
+    this.mic = null;
+  }
+}
@@ -0,0 +1,47 @@
+import { WakeWordDetector, type WakeWordDetection, type WakeWordTemplate } from './wake-word-detector';
+
+export type WakeWordWorkerRequest =
+  | { type: 'configure'; templates: WakeWordTemplate[]; sensitivity: number }
+  /** Live 16 kHz mic audio. */
+  | { type: 'audio'; samples: Float32Array }
+  /** A whole 16 kHz recording, scored from the start with a fresh detector. */
+  | { type: 'test'; id: number; samples: Float32Array };
+
+export type WakeWordWorkerResponse =
+  | { type: 'detected'; detection: WakeWordDetection }
+  | { type: 'testResult'; id: number; detections: WakeWordDetection[] };
+
+// Feeds test recordings in chunks the size of live mic frames.
+const TEST_CHUNK = 1600;
+
+let templates: WakeWordTemplate[] = [];
+let sensitivity = 0.5;
+let detector = new WakeWordDetector(templates, sensitivity);
+
+const post = (message: WakeWordWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<WakeWordWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'configure':
+      templates = message.templates;
+      sensitivity = message.sensitivity;
+      detector = new WakeWordDetector(templates, sensitivity);
+      break;
+    case 'audio': {
+      const detection = detector.push(message.samples);
+      if (detection) post({ type: 'detected', detection });
+      break;
+    }
+    case 'test': {
+      const testDetector = new WakeWordDetector(templates, sensitivity);
+      const detections: WakeWordDetection[] = [];
+      for (let offset = 0; offset < message.samples.length; offset += TEST_CHUNK) {
+        const detection = testDetector.push(message.samples.subarray(offset, offset + TEST_CHUNK));
+        if (detection) detections.push(detection);
+      }
+      post({ type: 'testResult', id: message.id, detections });
+      break;
+    }
+  }
+};
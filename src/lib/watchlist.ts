@@ -0,0 +1,37 @@
+/**
+ * Titles the user has saved for later, persisted to localStorage.
+ */
+
+const STORAGE_KEY = 'atlas.watchlist';
+
+const listeners = new Set<() => void>();
+let cached: string[] | null = null;
+
+const load = (): string[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.error('Failed to read watchlist:', e);
+  }
+  return [];
+};
+
+export const getWatchlist = (): string[] => {
+  if (!cached) cached = load();
+  return cached;
+};
+
+export const addToWatchlist = (title: string) => {
+  if (getWatchlist().includes(title)) return;
+  cached = [...getWatchlist(), title];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeWatchlist = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, parseWav } from './wav';
+
+/** A WAV file with the given format chunk fields and raw data bytes. */
+const wavFile = (format: { audioFormat: number; channels: number; sampleRate: number; bits: number }, data: Uint8Array) => {
+  const view = new DataView(new ArrayBuffer(44 + data.length + (data.length % 2)));
+  const tag = (offset: number, value: string) => [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  tag(0, 'RIFF');
+  view.setUint32(4, view.byteLength - 8, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format.audioFormat, true);
+  view.setUint16(22, format.channels, true);
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint16(34, format.bits, true);
+  tag(36, 'data');
+  view.setUint32(40, data.length, true);
+  new Uint8Array(view.buffer).set(data, 44);
+  return view.buffer;
+};
+
+describe('parseWav', () => {
+  it('reads back what encodeWav writes', async () => {
+    const samples = Int16Array.from([0, 16384, -16384, 32767, -32768]);
+    const { sampleRate, samples: decoded } = parseWav(await encodeWav([samples], 16000).arrayBuffer());
+    expect(sampleRate).toBe(16000);
+    expect(Array.from(decoded)).toEqual([0, 0.5, -0.5, 32767 / 32768, -1]);
+  });
+
+  it('downmixes stereo to mono', async () => {
+    const left = Int16Array.from([16384, 0]);
+    const right = Int16Array.from([0, -16384]);
+    const { samples } = parseWav(await encodeWav([left, right], 8000).arrayBuffer());
+    expect(Array.from(samples)).toEqual([0.25, -0.25]);
+  });
+
+  it('reads 8-bit, 24-bit and float samples', () => {
+    const eightBit = parseWav(wavFile({ audioFormat: 1, channels: 1, sampleRate: 8000, bits: 8 }, Uint8Array.from([128, 192, 0])));
+    expect(Array.from(eightBit.samples)).toEqual([0, 0.5, -1]);
+
+    const twentyFour = parseWav(
+      wavFile({ audioFormat: 1, channels: 1, sampleRate: 8000, bits: 24 }, Uint8Array.from([0, 0, 0x40, 0, 0, 0x80])),
+    );
+    expect(Array.from(twentyFour.samples)).toEqual([0.5, -1]);
+
+    const float = new Float32Array([0.25, -0.75]);
+    const floats = parseWav(wavFile({ audioFormat: 3, channels: 1, sampleRate: 8000, bits: 32 }, new Uint8Array(float.buffer)));
+    expect(Array.from(floats.samples)).toEqual([0.25, -0.75]);
+  });
+
+  it('skips chunks it does not know', async () => {
+    const bytes = new Uint8Array(await encodeWav([Int16Array.from([16384])], 8000).arrayBuffer());
+    const extra = new Uint8Array([...'LIST'].map((c) => c.charCodeAt(0)).concat([3, 0, 0, 0, 1, 2, 3, 0]));
+    const withList = new Uint8Array(bytes.length + extra.length);
+    withList.set(bytes.subarray(0, 36));
+    withList.set(extra, 36);
+    withList.set(bytes.subarray(36), 36 + extra.length);
+    expect(Array.from(parseWav(withList.buffer).samples)).toEqual([0.5]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseWav(new ArrayBuffer(12))).toThrow('Not a WAV file');
+    expect(() => parseWav(wavFile({ audioFormat: 2, channels: 1, sampleRate: 8000, bits: 4 }, new Uint8Array(2)))).toThrow(
+      'Unsupported WAV encoding',
+    );
+    expect(() => parseWav(wavFile({ audioFormat: 1, channels: 1, sampleRate: 8000, bits: 12 }, new Uint8Array(2)))).toThrow(
+      'Unsupported WAV bit depth',
+    );
+  });
+});
@@ -0,0 +1,100 @@
+export interface DecodedWav {
+  sampleRate: number;
+  /** Mono samples in [-1, 1]; multi-channel files are downmixed. */
+  samples: Float32Array;
+}
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+/** Parses RIFF/WAVE files holding 8/16/24/32-bit integer or 32-bit float PCM. */
+export const parseWav = (buffer: ArrayBuffer): DecodedWav => {
+  const view = new DataView(buffer);
+  if (readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID.
+      if (format.audioFormat === 0xfffe) format.audioFormat = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk before format chunk');
+      const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+      const bytesPerSample = bitsPerSample / 8;
+      const readSample = sampleReader(view, audioFormat, bitsPerSample);
+      const frameCount = Math.floor(Math.min(size, view.byteLength - body) / (bytesPerSample * channels));
+      const samples = new Float32Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += readSample(body + (i * channels + c) * bytesPerSample);
+        samples[i] = sum / channels;
+      }
+      return { sampleRate, samples };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no audio data');
+};
+
+const sampleReader = (view: DataView, audioFormat: number, bits: number): ((offset: number) => number) => {
+  if (audioFormat === 3 && bits === 32) return (offset) => view.getFloat32(offset, true);
+  if (audioFormat !== 1) throw new Error(`Unsupported WAV encoding (format ${audioFormat})`);
+  switch (bits) {
+    case 8:
+      return (offset) => (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return (offset) => view.getInt16(offset, true) / 32768;
+    case 24:
+      return (offset) => {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      };
+    case 32:
+      return (offset) => view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported WAV bit depth ${bits}`);
+  }
+};
+
+/** Encodes equal-length 16-bit channels as an interleaved PCM WAV file. */
+export const encodeWav = (channels: Int16Array[], sampleRate: number): Blob => {
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const dataSize = frameCount * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < frameCount; i++) {
+    channels.forEach((channel, c) => view.setInt16(44 + i * blockAlign + c * 2, channel[i], true));
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,315 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, ComposedChart, Line, Scatter, XAxis, YAxis } from "recharts";
+import { Navigation } from "@/components/ui/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Activity, Download, FileAudio, FileJson, Gauge, Trash2 } from "lucide-react";
+import { ConsoleLog, type LogEntry } from "@/components/console-log";
+import { useAssistantSettings } from "@/hooks/use-assistant-settings";
+import { useSessionRecordings } from "@/hooks/use-session-recordings";
+import { usePipelineMetrics } from "@/hooks/use-pipeline-metrics";
+import { removeSessionRecording } from "@/lib/session-recordings";
+import { clearPipelineMetrics, type PipelineMetric, type PipelineMetricName } from "@/lib/pipeline-metrics";
+import type { SessionRecordingFile, SessionRecordingLayout } from "@/lib/session-recorder";
+
+const downloadFile = ({ name, blob }: SessionRecordingFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const fileLabel = (name: string) => {
+  if (name.endsWith(".json")) return "Events";
+  if (name.endsWith("-mic.wav")) return "Mic";
+  if (name.endsWith("-model.wav")) return "Assistant";
+  return "WAV";
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Replies slower than this are flagged in the console.
+const SLOW_RESPONSE_MS = 1500;
+
+const metricSteps: Record<PipelineMetricName, string> = {
+  connect: "Connect",
+  "response-latency": "Response latency",
+  "chunk-decode": "Chunk decode",
+  "queue-depth": "Playback queue",
+  underrun: "Underrun",
+};
+
+const describeMetric = (metric: PipelineMetric): string => {
+  switch (metric.name) {
+    case "connect":
+      return metric.failed ? `Connection failed${metric.detail ? `: ${metric.detail}` : ""}` : `Connected (${metric.detail})`;
+    case "response-latency":
+      return "End of speech to first reply audio";
+    case "chunk-decode":
+      return `Decoded and scheduled ${metric.detail}`;
+    case "queue-depth":
+      return `${Math.round(metric.value)} ms of reply audio queued`;
+    case "underrun":
+      return `Playback starved for ${Math.round(metric.value)} ms mid-reply`;
+  }
+};
+
+const logType = (metric: PipelineMetric): LogEntry["type"] => {
+  if (metric.failed) return "error";
+  if (metric.name === "underrun") return "warning";
+  if (metric.name === "response-latency") return metric.value > SLOW_RESPONSE_MS ? "warning" : "success";
+  return metric.name === "connect" ? "success" : "info";
+};
+
+const toLogEntry = (metric: PipelineMetric): LogEntry => ({
+  id: metric.id,
+  timestamp: metric.timestamp,
+  step: metricSteps[metric.name],
+  message: describeMetric(metric),
+  type: logType(metric),
+  duration: metric.name === "queue-depth" ? undefined : Math.round(metric.value),
+});
+
+// Chart series, keyed by the field each point carries.
+const timelineConfig = {
+  connect: { label: "Connect", color: "hsl(var(--ai-glow))" },
+  responseLatency: { label: "Response latency", color: "hsl(var(--ai-success))" },
+  underrun: { label: "Underrun", color: "hsl(var(--ai-error))" },
+  queueDepth: { label: "Queue depth", color: "hsl(var(--accent))" },
+  chunkDecode: { label: "Chunk decode", color: "hsl(var(--ai-warning))" },
+} satisfies ChartConfig;
+
+const timelineKeys: Record<PipelineMetricName, keyof typeof timelineConfig> = {
+  connect: "connect",
+  "response-latency": "responseLatency",
+  underrun: "underrun",
+  "queue-depth": "queueDepth",
+  "chunk-decode": "chunkDecode",
+};
+
+const isPerChunk = (metric: PipelineMetric) => metric.name === "chunk-decode" || metric.name === "queue-depth";
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const Diagnostics = () => {
+  const [settings, updateSettings] = useAssistantSettings();
+  const recordings = useSessionRecordings();
+  const metrics = usePipelineMetrics();
+  const [showPerChunk, setShowPerChunk] = useState(false);
+
+  const logs = useMemo(
+    () => metrics.filter((metric) => showPerChunk || !isPerChunk(metric)).map(toLogEntry),
+    [metrics, showPerChunk],
+  );
+
+  const timeline = useMemo(() => {
+    const start = metrics[0]?.timestamp.getTime() ?? 0;
+    return metrics.map((metric) => ({
+      t: (metric.timestamp.getTime() - start) / 1000,
+      [timelineKeys[metric.name]]: metric.value,
+    }));
+  }, [metrics]);
+
+  const summary = useMemo(() => {
+    const values = (name: PipelineMetricName) =>
+      metrics.filter((metric) => metric.name === name && !metric.failed).map((metric) => metric.value);
+    return [
+      { label: "Avg connect", value: average(values("connect")), unit: "ms" },
+      { label: "Avg response latency", value: average(values("response-latency")), unit: "ms" },
+      { label: "Avg chunk decode", value: average(values("chunk-decode")), unit: "ms" },
+      { label: "Underruns", value: values("underrun").length, unit: "" },
+    ];
+  }, [metrics]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="flex items-center justify-center space-x-2">
+              <Activity className="w-8 h-8 text-accent" />
+              <h1 className="text-3xl font-bold text-foreground">Diagnostics</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Tools for QA and support tickets
+            </p>
+          </div>
+
+          {/* Pipeline Metrics */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Gauge className="w-5 h-5 text-accent" />
+                <span>Pipeline Metrics</span>
+              </CardTitle>
+              <CardDescription>
+                Timing from live Gemini sessions since the page loaded: connection setup, end of speech to first reply
+                audio, per-chunk decode time, playback queue depth and underruns.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {summary.map(({ label, value, unit }) => (
+                  <div key={label} className="rounded-lg border border-border/50 bg-card/50 p-3">
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-xl font-semibold text-foreground font-mono">
+                      {value === null ? "–" : `${value}${unit && ` ${unit}`}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <ChartContainer config={timelineConfig} className="h-64 w-full aspect-auto">
+                <ComposedChart data={timeline} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="t"
+                    type="number"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(t: number) => `${t.toFixed(0)}s`}
+                  />
+                  <YAxis unit=" ms" width={64} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, [item]) => `${item?.payload.t.toFixed(1)}s`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="queueDepth" stroke="var(--color-queueDepth)" dot={false} connectNulls isAnimationActive={false} />
+                  <Line dataKey="chunkDecode" stroke="var(--color-chunkDecode)" dot={false} connectNulls isAnimationActive={false} />
+                  <Scatter dataKey="connect" fill="var(--color-connect)" isAnimationActive={false} />
+                  <Scatter dataKey="responseLatency" fill="var(--color-responseLatency)" isAnimationActive={false} />
+                  <Scatter dataKey="underrun" fill="var(--color-underrun)" isAnimationActive={false} />
+                </ComposedChart>
+              </ChartContainer>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Switch id="show-per-chunk" checked={showPerChunk} onCheckedChange={setShowPerChunk} />
+                  <Label htmlFor="show-per-chunk">Log every reply chunk</Label>
+                </div>
+                <Button variant="outline" size="sm" onClick={clearPipelineMetrics} disabled={metrics.length === 0}>
+                  <Trash2 className="w-4 h-4 mr-1.5" />
+                  Clear
+                </Button>
+              </div>
+
+              <ConsoleLog logs={logs} />
+            </CardContent>
+          </Card>
+
+          {/* Session Recording */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileAudio className="w-5 h-5 text-accent" />
+                <span>Session Recording</span>
+              </CardTitle>
+              <CardDescription>
+                Records your microphone and the assistant's replies, time-aligned, with a JSON log of session events.
+                Starts with the next conversation. Recordings stay on this device until the page reloads.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="session-recording-enabled">Record assistant sessions</Label>
+                <Switch
+                  id="session-recording-enabled"
+                  checked={settings.sessionRecordingEnabled}
+                  onCheckedChange={(checked) => updateSettings({ sessionRecordingEnabled: checked })}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label>Audio files</Label>
+                <RadioGroup
+                  value={settings.sessionRecordingLayout}
+                  onValueChange={(value) =>
+                    updateSettings({ sessionRecordingLayout: value as SessionRecordingLayout })
+                  }
+                  className="flex space-x-6"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="stereo" id="layout-stereo" />
+                    <Label htmlFor="layout-stereo">One stereo WAV (left: you, right: assistant)</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="mono" id="layout-mono" />
+                    <Label htmlFor="layout-mono">Two mono WAVs</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Recordings</Label>
+                {recordings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No recordings yet. Turn recording on, then talk to the assistant.
+                  </p>
+                ) : (
+                  recordings.map((recording) => (
+                    <div
+                      key={recording.id}
+                      className="flex flex-wrap items-center gap-2 rounded-lg border border-border/50 bg-card/50 p-3"
+                    >
+                      <div className="mr-auto">
+                        <p className="text-sm font-medium text-foreground">{recording.startedAt.toLocaleString()}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDuration(recording.durationMs)} ·{" "}
+                          {recording.layout === "stereo" ? "stereo" : "two mono files"}
+                        </p>
+                      </div>
+                      {recording.files.map((file) => (
+                        <Button key={file.name} variant="outline" size="sm" onClick={() => downloadFile(file)}>
+                          {file.name.endsWith(".json") ? (
+                            <FileJson className="w-4 h-4 mr-1.5" />
+                          ) : (
+                            <Download className="w-4 h-4 mr-1.5" />
+                          )}
+                          {fileLabel(file.name)}
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            {formatSize(file.blob.size)}
+                          </Badge>
+                        </Button>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeSessionRecording(recording.id)}
+                        title="Discard recording"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Diagnostics;
@@ -0,0 +1,256 @@
+import { useEffect, useMemo, useState } from "react";
+import { Navigation } from "@/components/ui/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History as HistoryIcon, Search, Play, Square, Trash2, MessageSquareReply, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { TranscriptionDisplay, type TranscriptionEntry } from "@/components/transcription-display";
+import { useProfiles } from "@/hooks/use-profiles";
+import { useConversationHistory } from "@/hooks/use-conversation-history";
+import { useAssistantOverlay } from "@/hooks/use-assistant-overlay";
+import { useSpeechPlayback } from "@/hooks/use-speech-playback";
+import { conversationMatches, deleteConversation, type StoredConversation } from "@/lib/conversation-history";
+import { describeTurnAction } from "@/lib/launcher-tools";
+import { speakText, stopSpeaking } from "@/lib/text-to-speech";
+
+const toEntries = (conversation: StoredConversation): TranscriptionEntry[] =>
+  conversation.turns.map((turn, index) => ({
+    id: `${conversation.id}-${index}`,
+    timestamp: turn.startedAt,
+    userInput: turn.userText,
+    aiResponse: turn.modelText,
+    language: turn.language,
+    actions: turn.actions.map(describeTurnAction),
+  }));
+
+const conversationTitle = (conversation: StoredConversation) =>
+  conversation.turns.find((turn) => turn.userText)?.userText ?? "Untitled conversation";
+
+const History = () => {
+  const { profiles, activeProfile, addProfile, setActiveProfile } = useProfiles();
+  const { conversations, isLoading } = useConversationHistory(activeProfile.id);
+  const { resumeConversation } = useAssistantOverlay();
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<StoredConversation | null>(null);
+  const [newProfileName, setNewProfileName] = useState("");
+  const playback = useSpeechPlayback();
+  const isReplaying = playback.text !== null;
+
+  const filtered = useMemo(
+    () => conversations.filter((conversation) => conversationMatches(conversation, query)),
+    [conversations, query],
+  );
+  const selected = filtered.find((conversation) => conversation.id === selectedId) ?? filtered[0] ?? null;
+
+  // Don't keep talking over a page the user has left.
+  useEffect(() => () => stopSpeaking(), []);
+
+  const speak = (texts: string[]) => {
+    speakText(texts).catch((e) => toast.error(e instanceof Error ? e.message : "Speech playback failed"));
+  };
+
+  const replayConversation = (conversation: StoredConversation) => {
+    stopSpeaking();
+    speak(conversation.turns.flatMap((turn) => [turn.userText, turn.modelText]));
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteConversation(pendingDelete.id);
+      toast.success("Conversation deleted");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to delete conversation");
+    }
+    setPendingDelete(null);
+  };
+
+  const createProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    addProfile(name);
+    setNewProfileName("");
+    setSelectedId(null);
+    toast.success(`Switched to ${name}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-4 py-6 max-w-6xl">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="flex items-center justify-center space-x-2">
+              <HistoryIcon className="w-8 h-8 text-accent" />
+              <h1 className="text-3xl font-bold text-foreground">Conversation History</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Past conversations with the assistant for {activeProfile.name}, saved on this device
+            </p>
+          </div>
+
+          {/* Profile and Search */}
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={activeProfile.id}
+              onValueChange={(id) => {
+                setActiveProfile(id);
+                setSelectedId(null);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createProfile();
+              }}
+            >
+              <Input
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                placeholder="New profile name"
+                className="w-44"
+              />
+              <Button type="submit" variant="outline" size="icon" disabled={!newProfileName.trim()} title="Add profile">
+                <UserPlus className="w-4 h-4" />
+              </Button>
+            </form>
+            <div className="relative ml-auto w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search conversations..."
+                className="pl-9"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[20rem_1fr] gap-6">
+            {/* Conversation List */}
+            <Card className="bg-muted/30 border-border/50">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium">Conversations</CardTitle>
+                <CardDescription>
+                  {isLoading ? "Loading..." : `${filtered.length} of ${conversations.length}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-[28rem]">
+                  <div className="space-y-1 p-2 pt-0">
+                    {!isLoading && filtered.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        {conversations.length === 0 ? "No conversations yet" : "Nothing matches your search"}
+                      </p>
+                    )}
+                    {filtered.map((conversation) => (
+                      <button
+                        key={conversation.id}
+                        type="button"
+                        onClick={() => setSelectedId(conversation.id)}
+                        className={cn(
+                          "w-full text-left rounded-md px-3 py-2 transition-colors",
+                          "hover:bg-muted/60 focus:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+                          selected?.id === conversation.id && "bg-muted",
+                        )}
+                      >
+                        <p className="text-sm font-medium text-foreground truncate">{conversationTitle(conversation)}</p>
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-xs text-muted-foreground">
+                            {conversation.updatedAt.toLocaleString()}
+                          </span>
+                          <Badge variant="outline" className="text-xs">
+                            {conversation.turns.length} turns
+                          </Badge>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+
+            {/* Selected Conversation */}
+            <div className="space-y-3">
+              {selected && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button onClick={() => resumeConversation(selected)}>
+                    <MessageSquareReply className="w-4 h-4 mr-2" />
+                    Resume
+                  </Button>
+                  {isReplaying ? (
+                    <Button variant="outline" onClick={stopSpeaking}>
+                      <Square className="w-4 h-4 mr-2" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={() => replayConversation(selected)}>
+                      <Play className="w-4 h-4 mr-2" />
+                      Replay
+                    </Button>
+                  )}
+                  <Button variant="outline" className="ml-auto" onClick={() => setPendingDelete(selected)}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              )}
+              <TranscriptionDisplay
+                transcriptions={selected ? toEntries(selected) : []}
+                onPlayResponse={(text) => speak([text])}
+                playback={playback}
+                onStopPlayback={stopSpeaking}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be removed from {activeProfile.name}'s history on this device. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default History;
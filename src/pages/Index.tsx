@@ -1,23 +1,58 @@
 import { useState, useEffect } from "react";
 import { TVNavigation } from "@/components/tv-navigation";
-import { AIOverlay } from "@/components/ai-overlay";
 import { HeroCarousel } from "@/components/hero-carousel";
 import { AppGrid } from "@/components/app-grid";
 import { ContentRow } from "@/components/content-row";
 import { useKeyboardNavigation } from "@/hooks/use-keyboard-nav";
+import { useAssistantOverlay } from "@/hooks/use-assistant-overlay";
+import { useLauncherCommand } from "@/hooks/use-launcher-command";
+import { updateScreenContext } from "@/lib/screen-context";
+import type { ContentItem } from "@/lib/launcher-data";
+
+const sectionNames = ["Top navigation", "Featured carousel", "Apps", "Recommended Movies", "Search results"];
+const SEARCH_SECTION = 4;
+
+interface SearchResults {
+  id: number;
+  heading: string;
+  items: ContentItem[];
+}
 
 const Index = () => {
-  const [isAIOpen, setIsAIOpen] = useState(false);
+  const { isOpen: isAIOpen, open: openAI } = useAssistantOverlay();
   const [currentSection, setCurrentSection] = useState(0); // 0: nav, 1: carousel, 2: apps, 3: recommended
   const [navFocused, setNavFocused] = useState(false);
   const [carouselFocused, setCarouselFocused] = useState(false);
   const [appsFocused, setAppsFocused] = useState(false);
   const [recommendedFocused, setRecommendedFocused] = useState(false);
+  // Assistant catalog searches show up as a temporary row until dismissed with Back
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [focusSearchPending, setFocusSearchPending] = useState(false);
+  const lastSection = searchResults ? SEARCH_SECTION : 3;
+
+  useLauncherCommand("showSearchResults", ({ heading, items }) => {
+    setSearchResults((current) => ({ id: (current?.id ?? 0) + 1, heading, items }));
+    setFocusSearchPending(true);
+    return true;
+  });
+
+  // Move to the results once the assistant is out of the way, so focus isn't taken from it
+  useEffect(() => {
+    if (focusSearchPending && !isAIOpen) {
+      setFocusSearchPending(false);
+      setCurrentSection(SEARCH_SECTION);
+    }
+  }, [focusSearchPending, isAIOpen]);
+
+  const dismissSearchResults = () => {
+    setSearchResults(null);
+    setCurrentSection((section) => Math.min(section, 3));
+  };
 
   // Global keyboard navigation for section switching
   useKeyboardNavigation({
     onArrowDown: () => {
-      if (currentSection < 3) {
+      if (currentSection < lastSection) {
         setCurrentSection(prev => prev + 1);
         // Reset focus states
         setNavFocused(false);
@@ -36,6 +71,9 @@ const Index = () => {
         setRecommendedFocused(false);
       }
     },
+    onEscape: () => {
+      if (currentSection === SEARCH_SECTION) dismissSearchResults();
+    },
     // Disable when AI overlay is open to prevent background navigation
     disabled: isAIOpen,
   });
@@ -73,13 +111,21 @@ const Index = () => {
     return () => clearTimeout(timer);
   }, [currentSection]);
 
+  // Only the focused section has a focused app or title
+  useEffect(() => {
+    updateScreenContext({
+      section: sectionNames[currentSection],
+      ...(currentSection !== 2 && { focusedApp: null }),
+      ...(currentSection !== 3 && currentSection !== SEARCH_SECTION && { focusedContent: null }),
+    });
+  }, [currentSection]);
 
-
+  useEffect(() => () => updateScreenContext({ section: null, focusedApp: null, focusedContent: null }), []);
 
   return (
     <div className="min-h-screen bg-background">
       <TVNavigation 
-        onAIClick={() => setIsAIOpen(true)} 
+        onAIClick={() => openAI()} 
         onFocusChange={setNavFocused}
         isFocused={currentSection === 0}
       />
@@ -103,13 +149,17 @@ const Index = () => {
           isFocused={currentSection === 3}
           onFocusChange={setRecommendedFocused}
         />
-      </div>
 
-      {/* AI Overlay */}
-      <AIOverlay
-        isOpen={isAIOpen}
-        onClose={() => setIsAIOpen(false)}
-      />
+        {/* Assistant Search Results */}
+        {searchResults && (
+          <ContentRow
+            key={searchResults.id}
+            title={searchResults.heading}
+            items={searchResults.items}
+            isFocused={currentSection === SEARCH_SECTION}
+          />
+        )}
+      </div>
     </div>
   );
 };
@@ -1,14 +1,202 @@
+import { useEffect, useState } from "react";
 import { Navigation } from "@/components/ui/navigation";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Settings as SettingsIcon, Brain, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Badge } from "@/components/ui/badge";
+import { Settings as SettingsIcon, Brain, CheckCircle, AlertTriangle, KeyRound, Languages, Mic, Ear, FileAudio, Speaker, Volume2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAssistantSettings } from "@/hooks/use-assistant-settings";
+import { useWakeWordTemplates } from "@/hooks/use-wake-word-templates";
+import { isAssistantConfigured, talkKeys, type AssistantSettings, type TalkMode } from "@/lib/assistant-settings";
+import {
+  assistantLanguages,
+  assistantVoices,
+  personaPresets,
+  type PersonaId,
+} from "@/lib/assistant-persona";
+import { isOutputSelectionSupported, listOutputDevices } from "@/lib/audio-focus";
+import {
+  DEFAULT_SPEECH_SERVER_URL,
+  createSpeechEngine,
+  isBrowserSpeechSupported,
+  speakText,
+  type SpeechEngineKind,
+  type SpeechVoice,
+} from "@/lib/text-to-speech";
+import { createWakeWordTemplate, type WakeWordDetection } from "@/lib/wake-word-detector";
+import {
+  WAKE_PHRASE,
+  addWakeWordTemplate,
+  clearWakeWordTemplates,
+  decodeWavFile,
+  recordWakeWordSample,
+  testWakeWord,
+} from "@/lib/wake-word";
+
+interface WakeWordTestResult {
+  fileName: string;
+  detections: WakeWordDetection[];
+}
 
 const Settings = () => {
+  const [settings, updateSettings] = useAssistantSettings();
+  const [draft, setDraft] = useState<AssistantSettings>(settings);
+  const configured = isAssistantConfigured(settings);
+  const wakeWordTemplates = useWakeWordTemplates();
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [wakeWordResults, setWakeWordResults] = useState<WakeWordTestResult[]>([]);
+  const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [speechVoices, setSpeechVoices] = useState<SpeechVoice[]>([]);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  // Keep the speaker list current as headphones and speakers come and go
+  useEffect(() => {
+    if (!isOutputSelectionSupported()) return;
+    const refresh = () => listOutputDevices().then(setOutputDevices).catch((e) => console.error("Failed to list audio outputs:", e));
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSpeechVoices([]);
+    // The saved URL, not the draft, so typing one doesn't fetch on every keystroke
+    createSpeechEngine(draft.speechEngine, settings.speechServerUrl)
+      .listVoices()
+      .then((voices) => {
+        if (!cancelled) setSpeechVoices(voices);
+      })
+      .catch((e) => console.error("Failed to list voices:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [draft.speechEngine, settings.speechServerUrl]);
+
+  const saveCredentials = () => {
+    updateSettings({
+      credentialMode: draft.credentialMode,
+      apiKey: draft.apiKey.trim(),
+      tokenEndpoint: draft.tokenEndpoint.trim(),
+      proxyUrl: draft.proxyUrl.trim(),
+    });
+    toast.success("Assistant settings saved");
+  };
+
+  const saveVoice = () => {
+    updateSettings({
+      voiceName: draft.voiceName,
+      language: draft.language,
+      personaId: draft.personaId,
+      customPersonaPrompt: draft.customPersonaPrompt.trim(),
+    });
+    toast.success("Voice and persona saved", {
+      description: "They apply from the next conversation.",
+    });
+  };
+
+  const saveTalking = () => {
+    updateSettings({
+      talkMode: draft.talkMode,
+      talkKey: draft.talkKey,
+      localCommandsEnabled: draft.localCommandsEnabled,
+    });
+    toast.success("Talk settings saved");
+  };
+
+  const saveOutput = () => {
+    updateSettings({ outputDeviceId: draft.outputDeviceId });
+    toast.success("Audio output saved");
+  };
+
+  const applySpeech = () =>
+    updateSettings({
+      speechEngine: draft.speechEngine,
+      speechServerUrl: draft.speechServerUrl.trim(),
+      speechVoiceId: draft.speechVoiceId,
+      speechRate: draft.speechRate,
+      speechPitch: draft.speechPitch,
+    });
+
+  const saveSpeech = () => {
+    applySpeech();
+    toast.success("Read-aloud settings saved");
+  };
+
+  const tryVoice = () => {
+    applySpeech();
+    speakText("This is how transcripts and replies will be read aloud.").catch((e) =>
+      toast.error(e instanceof Error ? e.message : "Speech playback failed"),
+    );
+  };
+
+  const saveWakeWord = () => {
+    updateSettings({
+      wakeWordEnabled: draft.wakeWordEnabled,
+      wakeWordSensitivity: draft.wakeWordSensitivity,
+    });
+    toast.success("Wake word settings saved");
+  };
+
+  const enroll = (samples: Float32Array) => {
+    const template = createWakeWordTemplate(samples);
+    if (!template) {
+      toast.error(`Didn't hear "${WAKE_PHRASE}" in that sample`);
+      return;
+    }
+    addWakeWordTemplate(template);
+    toast.success("Sample added");
+  };
+
+  const recordSample = async () => {
+    setIsEnrolling(true);
+    try {
+      enroll(await recordWakeWordSample());
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Recording failed");
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const enrollFromFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      try {
+        enroll(await decodeWavFile(file));
+      } catch (e) {
+        toast.error(`${file.name}: ${e instanceof Error ? e.message : "unreadable"}`);
+      }
+    }
+  };
+
+  const testFiles = async (files: FileList | null) => {
+    const list = Array.from(files ?? []);
+    try {
+      const recordings = await Promise.all(list.map(decodeWavFile));
+      const detections = await testWakeWord(recordings, wakeWordTemplates, draft.wakeWordSensitivity);
+      setWakeWordResults(list.map((file, i) => ({ fileName: file.name, detections: detections[i] })));
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Wake word test failed");
+    }
+  };
+
+  const selectedPreset = personaPresets.find((persona) => persona.id === draft.personaId);
 
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
-      
+
       <div className="container mx-auto px-4 py-6 max-w-4xl">
         <div className="space-y-6">
           {/* Header */}
@@ -23,12 +211,563 @@ const Settings = () => {
           </div>
 
           {/* Status */}
-          <Alert className="border-accent/50 bg-accent/5">
-            <CheckCircle className="h-4 w-4 text-accent" />
-            <AlertDescription className="text-accent">
-              Gemini Live Audio is ready to use! No configuration required.
-            </AlertDescription>
-          </Alert>
+          {configured ? (
+            <Alert className="border-accent/50 bg-accent/5">
+              <CheckCircle className="h-4 w-4 text-accent" />
+              <AlertDescription className="text-accent">
+                Gemini Live Audio is configured and ready to use.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Gemini Live Audio is not configured. Add an API key, token endpoint or assistant server below.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Credentials */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <KeyRound className="w-5 h-5 text-accent" />
+                <span>Credentials</span>
+              </CardTitle>
+              <CardDescription>
+                Stored on this device only. Prefer a token endpoint on shared devices so no long-lived key is kept in the browser.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <RadioGroup
+                value={draft.credentialMode}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({ ...prev, credentialMode: value as AssistantSettings["credentialMode"] }))
+                }
+                className="flex space-x-6"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="apiKey" id="mode-api-key" />
+                  <Label htmlFor="mode-api-key">API key</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="tokenEndpoint" id="mode-token-endpoint" />
+                  <Label htmlFor="mode-token-endpoint">Ephemeral token endpoint</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="proxy" id="mode-proxy" />
+                  <Label htmlFor="mode-proxy">Assistant server proxy</Label>
+                </div>
+              </RadioGroup>
+
+              {draft.credentialMode === "apiKey" && (
+                <div className="space-y-2">
+                  <Label htmlFor="api-key">Gemini API key</Label>
+                  <Input
+                    id="api-key"
+                    type="password"
+                    autoComplete="off"
+                    placeholder="AIza..."
+                    value={draft.apiKey}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, apiKey: e.target.value }))}
+                  />
+                </div>
+              )}
+
+              {draft.credentialMode === "tokenEndpoint" && (
+                <div className="space-y-2">
+                  <Label htmlFor="token-endpoint">Token endpoint URL</Label>
+                  <Input
+                    id="token-endpoint"
+                    type="url"
+                    placeholder="http://localhost:5000/token"
+                    value={draft.tokenEndpoint}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, tokenEndpoint: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Called with <code>POST</code> before each session; must respond with <code>{"{ \"token\": \"...\" }"}</code>.
+                  </p>
+                </div>
+              )}
+
+              {draft.credentialMode === "proxy" && (
+                <div className="space-y-2">
+                  <Label htmlFor="proxy-url">Assistant server URL</Label>
+                  <Input
+                    id="proxy-url"
+                    type="url"
+                    placeholder="http://localhost:5000"
+                    value={draft.proxyUrl}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, proxyUrl: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The live session is relayed through this server, which holds the API key.
+                  </p>
+                </div>
+              )}
+
+              <Button onClick={saveCredentials}>Save</Button>
+            </CardContent>
+          </Card>
+
+          {/* Voice & Persona */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Languages className="w-5 h-5 text-accent" />
+                <span>Voice, Language & Persona</span>
+              </CardTitle>
+              <CardDescription>
+                Changes apply when the next conversation starts.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-6 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="voice">Voice</Label>
+                  <Select
+                    value={draft.voiceName}
+                    onValueChange={(value) => setDraft((prev) => ({ ...prev, voiceName: value }))}
+                  >
+                    <SelectTrigger id="voice">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assistantVoices.map((voice) => (
+                        <SelectItem key={voice.name} value={voice.name}>
+                          {voice.name} · {voice.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="language">Response language</Label>
+                  <Select
+                    value={draft.language}
+                    onValueChange={(value) => setDraft((prev) => ({ ...prev, language: value }))}
+                  >
+                    <SelectTrigger id="language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assistantLanguages.map((language) => (
+                        <SelectItem key={language.code} value={language.code}>
+                          {language.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="persona">Persona</Label>
+                <Select
+                  value={draft.personaId}
+                  onValueChange={(value) => setDraft((prev) => ({ ...prev, personaId: value as PersonaId }))}
+                >
+                  <SelectTrigger id="persona">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {personaPresets.map((persona) => (
+                      <SelectItem key={persona.id} value={persona.id}>
+                        {persona.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {draft.personaId === "custom" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="persona-prompt">System prompt</Label>
+                  <Textarea
+                    id="persona-prompt"
+                    rows={5}
+                    placeholder="Describe how the assistant should behave..."
+                    value={draft.customPersonaPrompt}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, customPersonaPrompt: e.target.value }))}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground bg-card/50 p-3 rounded-lg border border-border/50">
+                  {selectedPreset?.prompt}
+                </p>
+              )}
+
+              <Button onClick={saveVoice}>Save</Button>
+            </CardContent>
+          </Card>
+
+          {/* Talking */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Mic className="w-5 h-5 text-accent" />
+                <span>Talking to the Assistant</span>
+              </CardTitle>
+              <CardDescription>
+                The talk key opens the assistant already listening from any screen.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <RadioGroup
+                value={draft.talkMode}
+                onValueChange={(value) => setDraft((prev) => ({ ...prev, talkMode: value as TalkMode }))}
+                className="space-y-3"
+              >
+                <div className="flex items-start space-x-2">
+                  <RadioGroupItem value="toggle" id="talk-toggle" className="mt-0.5" />
+                  <Label htmlFor="talk-toggle" className="space-y-1">
+                    <span className="block">Toggle</span>
+                    <span className="block text-xs text-muted-foreground font-normal">
+                      Press once to start talking and again to stop.
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start space-x-2">
+                  <RadioGroupItem value="hold" id="talk-hold" className="mt-0.5" />
+                  <Label htmlFor="talk-hold" className="space-y-1">
+                    <span className="block">Hold to talk</span>
+                    <span className="block text-xs text-muted-foreground font-normal">
+                      Hold the talk key while speaking; release it to send.
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start space-x-2">
+                  <RadioGroupItem value="openMic" id="talk-open-mic" className="mt-0.5" />
+                  <Label htmlFor="talk-open-mic" className="space-y-1">
+                    <span className="block">Open mic</span>
+                    <span className="block text-xs text-muted-foreground font-normal">
+                      The mic stays on while the assistant is open and picks up when you speak.
+                    </span>
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <div className="space-y-2">
+                <Label htmlFor="talk-key">Talk key</Label>
+                <Select
+                  value={draft.talkKey}
+                  onValueChange={(value) => setDraft((prev) => ({ ...prev, talkKey: value }))}
+                >
+                  <SelectTrigger id="talk-key">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {talkKeys.map((option) => (
+                      <SelectItem key={option.key} value={option.key}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <Label htmlFor="local-commands" className="space-y-1">
+                  <span className="block">Local voice commands</span>
+                  <span className="block text-xs text-muted-foreground font-normal">
+                    "Go home", "open Netflix", "next", "back", "scroll down" and "pause" are handled on this device.
+                    Anything else is sent to the assistant as text.
+                  </span>
+                </Label>
+                <Switch
+                  id="local-commands"
+                  checked={draft.localCommandsEnabled}
+                  onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, localCommandsEnabled: checked }))}
+                />
+              </div>
+
+              <Button onClick={saveTalking}>Save</Button>
+            </CardContent>
+          </Card>
+
+          {/* Audio Output */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Speaker className="w-5 h-5 text-accent" />
+                <span>Audio Output</span>
+              </CardTitle>
+              <CardDescription>
+                Other sound in the launcher is lowered while the assistant speaks and restored when it finishes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {isOutputSelectionSupported() ? (
+                <div className="space-y-2">
+                  <Label htmlFor="output-device">Play through</Label>
+                  <Select
+                    value={draft.outputDeviceId || "default"}
+                    onValueChange={(value) =>
+                      setDraft((prev) => ({ ...prev, outputDeviceId: value === "default" ? "" : value }))
+                    }
+                  >
+                    <SelectTrigger id="output-device">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">System default</SelectItem>
+                      {outputDevices.map((device, index) => (
+                        <SelectItem key={device.deviceId} value={device.deviceId}>
+                          {device.label || `Speaker ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Device names show once the microphone has been allowed.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  This browser always plays through the system default output.
+                </p>
+              )}
+
+              <Button onClick={saveOutput} disabled={!isOutputSelectionSupported()}>Save</Button>
+            </CardContent>
+          </Card>
+
+          {/* Read Aloud */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Volume2 className="w-5 h-5 text-accent" />
+                <span>Read Aloud</span>
+              </CardTitle>
+              <CardDescription>
+                The voice used by the speaker buttons on transcripts and conversation replays.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-6 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="speech-engine">Engine</Label>
+                  <Select
+                    value={draft.speechEngine}
+                    onValueChange={(value) =>
+                      setDraft((prev) => ({ ...prev, speechEngine: value as SpeechEngineKind, speechVoiceId: "" }))
+                    }
+                  >
+                    <SelectTrigger id="speech-engine">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="browser" disabled={!isBrowserSpeechSupported()}>
+                        This device
+                      </SelectItem>
+                      <SelectItem value="server">Server voices</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="speech-voice">Voice</Label>
+                  <Select
+                    value={draft.speechVoiceId || "default"}
+                    onValueChange={(value) =>
+                      setDraft((prev) => ({ ...prev, speechVoiceId: value === "default" ? "" : value }))
+                    }
+                  >
+                    <SelectTrigger id="speech-voice">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default voice</SelectItem>
+                      {speechVoices.map((voice) => (
+                        <SelectItem key={voice.id} value={voice.id}>
+                          {voice.language ? `${voice.name} · ${voice.language}` : voice.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {draft.speechEngine === "server" && (
+                <div className="space-y-2">
+                  <Label htmlFor="speech-server-url">Speech server URL</Label>
+                  <Input
+                    id="speech-server-url"
+                    type="url"
+                    placeholder={DEFAULT_SPEECH_SERVER_URL}
+                    value={draft.speechServerUrl}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, speechServerUrl: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The assistant server with <code>TTS_ENGINE</code> set. Save to load its voices.
+                  </p>
+                </div>
+              )}
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Rate</Label>
+                    <span className="text-xs text-muted-foreground">{draft.speechRate.toFixed(1)}×</span>
+                  </div>
+                  <Slider
+                    min={0.5}
+                    max={2}
+                    step={0.1}
+                    value={[draft.speechRate]}
+                    onValueChange={([value]) => setDraft((prev) => ({ ...prev, speechRate: value }))}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Pitch</Label>
+                    <span className="text-xs text-muted-foreground">{draft.speechPitch.toFixed(1)}</span>
+                  </div>
+                  <Slider
+                    min={0.5}
+                    max={2}
+                    step={0.1}
+                    value={[draft.speechPitch]}
+                    onValueChange={([value]) => setDraft((prev) => ({ ...prev, speechPitch: value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={saveSpeech}>Save</Button>
+                <Button variant="outline" onClick={tryVoice}>
+                  <Volume2 className="w-4 h-4 mr-2" />
+                  Try it
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Wake Word */}
+          <Card className="bg-muted/30 border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Ear className="w-5 h-5 text-accent" />
+                <span>Wake Word</span>
+              </CardTitle>
+              <CardDescription>
+                Say "{WAKE_PHRASE}" to open the assistant hands-free. Detection runs on this device; no audio is sent
+                until the assistant opens.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="wake-word-enabled">Listen for the wake word</Label>
+                <Switch
+                  id="wake-word-enabled"
+                  checked={draft.wakeWordEnabled}
+                  onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, wakeWordEnabled: checked }))}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Sensitivity</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {Math.round(draft.wakeWordSensitivity * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[draft.wakeWordSensitivity]}
+                  onValueChange={([value]) => setDraft((prev) => ({ ...prev, wakeWordSensitivity: value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Higher wakes more readily but may trigger on similar-sounding speech.
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Training samples</Label>
+                  <Badge variant="outline">{wakeWordTemplates.length} recorded</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Record "{WAKE_PHRASE}" three or more times in your normal voice, from where you usually sit.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={recordSample} disabled={isEnrolling}>
+                    <Mic className="w-4 h-4 mr-2" />
+                    {isEnrolling ? "Listening..." : "Record sample"}
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <label className="cursor-pointer">
+                      <FileAudio className="w-4 h-4 mr-2" />
+                      Add from WAV
+                      <input
+                        type="file"
+                        accept=".wav,audio/wav"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                          enrollFromFiles(e.target.files);
+                          e.target.value = "";
+                        }}
+                      />
+                    </label>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={clearWakeWordTemplates}
+                    disabled={wakeWordTemplates.length === 0}
+                  >
+                    Clear samples
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Test mode</Label>
+                <p className="text-xs text-muted-foreground">
+                  Run WAV recordings through the detector at the sensitivity above, without using the microphone.
+                </p>
+                <Button variant="outline" asChild disabled={wakeWordTemplates.length === 0}>
+                  <label className="cursor-pointer">
+                    <FileAudio className="w-4 h-4 mr-2" />
+                    Test WAV files
+                    <input
+                      type="file"
+                      accept=".wav,audio/wav"
+                      multiple
+                      className="hidden"
+                      disabled={wakeWordTemplates.length === 0}
+                      onChange={(e) => {
+                        testFiles(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+                {wakeWordResults.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {wakeWordResults.map((result) => (
+                      <li key={result.fileName} className="flex items-center justify-between bg-card/50 px-3 py-2 rounded-md">
+                        <span className="truncate">{result.fileName}</span>
+                        {result.detections.length > 0 ? (
+                          <Badge className="bg-accent/20 text-accent border-accent/30">
+                            Detected at {result.detections.map((d) => `${(d.timeMs / 1000).toFixed(1)}s`).join(", ")}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Not detected</Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <Button onClick={saveWakeWord}>Save</Button>
+            </CardContent>
+          </Card>
 
           {/* Info Section */}
           <Card className="bg-muted/30 border-border/50">
@@ -46,20 +785,15 @@ const Settings = () => {
                   <li>Gemini AI responds with natural voice conversations</li>
                   <li>No transcription delays or text-to-speech processing needed</li>
                 </ol>
-                
+
                 <div className="bg-card/50 p-4 rounded-lg border border-border/50">
                   <h4 className="font-medium text-foreground mb-2">Features:</h4>
                   <ul className="list-disc list-inside space-y-1 text-sm">
                     <li>Real-time bidirectional voice conversations</li>
                     <li>Natural interruption and turn-taking</li>
                     <li>High-quality audio processing</li>
-                    <li>No API key configuration required</li>
                   </ul>
                 </div>
-
-                <p className="text-xs text-muted-foreground">
-                  <strong>Note:</strong> This app uses Google's Gemini Live Audio API with a pre-configured API key for demonstration purposes.
-                </p>
               </div>
             </CardContent>
           </Card>
@@ -69,4 +803,4 @@ const Settings = () => {
   );
 };
 
-export default Settings;
\ No newline at end of file
+export default Settings;
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Navigation } from "@/components/ui/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AudioLines, ListOrdered, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { WaveformRecorder } from "@/components/waveform-recorder";
+import { TranscriptionDisplay, type TranscriptionEntry } from "@/components/transcription-display";
+import { ConsoleLog, type LogEntry } from "@/components/console-log";
+import {
+  createTranscriptionClient,
+  TranscriptionError,
+  type TranscriptionResult,
+  type TranscriptionSegment,
+} from "@/lib/transcription-client";
+import { TranscriptionStream } from "@/lib/transcription-stream";
+import { TRANSCRIPTION_STREAM_SAMPLE_RATE } from "@/lib/transcription-protocol";
+import { detectLanguage } from "@/lib/language-tools";
+
+type Phase = "idle" | "uploading" | "transcribing";
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+
+const Transcribe = () => {
+  const client = useMemo(() => createTranscriptionClient(), []);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  const [segments, setSegments] = useState<TranscriptionSegment[]>([]);
+  const [liveMode, setLiveMode] = useState(true);
+  // The live hypothesis while streaming; null when no stream is open.
+  const [interim, setInterim] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const streamRef = useRef<TranscriptionStream | null>(null);
+  const framesSentRef = useRef(0);
+  const nextLogId = useRef(0);
+
+  const log = (step: string, message: string, type: LogEntry["type"] = "info", duration?: number) => {
+    const entry = { id: String(nextLogId.current++), timestamp: new Date(), step, message, type, duration };
+    setLogs((current) => [...current, entry]);
+  };
+
+  // Nothing should keep uploading or streaming for a page the user has left.
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+      streamRef.current?.cancel();
+    },
+    [],
+  );
+
+  const addResult = async (result: TranscriptionResult) => {
+    // Engines usually report the language; when one doesn't, guess it from the text.
+    const language = result.language ?? (await detectLanguage(result.text));
+    setSegments(result.segments);
+    setTranscriptions((current) => [
+      {
+        id: String(Date.now()),
+        timestamp: new Date(),
+        userInput: result.text || "(no speech detected)",
+        aiResponse: "",
+        language: language ?? undefined,
+      },
+      ...current,
+    ]);
+  };
+
+  const startStream = () => {
+    if (!liveMode) return;
+    framesSentRef.current = 0;
+    streamRef.current = new TranscriptionStream({ onPartial: setInterim });
+    setInterim("");
+    log("Stream", "Streaming audio for live transcription");
+  };
+
+  const sendFrame = (frame: Int16Array) => {
+    if (!streamRef.current) return;
+    streamRef.current.sendFrame(frame);
+    framesSentRef.current += 1;
+  };
+
+  const handleRecording = async (audio: Blob) => {
+    const stream = streamRef.current;
+    if (!stream || framesSentRef.current === 0) {
+      stream?.cancel();
+      streamRef.current = null;
+      setInterim(null);
+      await transcribe(audio);
+      return;
+    }
+
+    const startedAt = performance.now();
+    setPhase("transcribing");
+    try {
+      const result = await stream.finish();
+      log(
+        "Transcribe",
+        `${result.segments.length} segments${result.language ? `, language ${result.language}` : ""}`,
+        "success",
+        performance.now() - startedAt,
+      );
+      await addResult(result);
+    } catch (err) {
+      const error = err instanceof TranscriptionError ? err : new TranscriptionError("network", String(err));
+      if (error.code === "cancelled") {
+        log("Cancel", "Transcription cancelled", "warning");
+        return;
+      }
+      // The whole clip was recorded anyway, so a failed stream just falls back to an upload.
+      log("Stream", `${error.message}; uploading the recording instead`, "warning");
+      setInterim(null);
+      await transcribe(audio);
+    } finally {
+      if (streamRef.current === stream) streamRef.current = null;
+      setInterim(null);
+      setPhase((current) => (current === "transcribing" ? "idle" : current));
+    }
+  };
+
+  const transcribe = async (audio: Blob) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startedAt = performance.now();
+    let uploadedAt: number | null = null;
+
+    log("Record", `Captured ${formatSize(audio.size)} of ${audio.type || "audio"}`, "success");
+    setPhase("uploading");
+    setProgress(0);
+
+    try {
+      const result = await client.transcribe(audio, {
+        signal: controller.signal,
+        onProgress: ({ fraction }) => {
+          setProgress(fraction);
+          if (fraction >= 1 && uploadedAt === null) {
+            uploadedAt = performance.now();
+            log("Upload", "Audio uploaded, waiting for the transcript", "success", uploadedAt - startedAt);
+            setPhase("transcribing");
+          }
+        },
+        onRetry: ({ attempt, delayMs, error }) => {
+          uploadedAt = null;
+          setPhase("uploading");
+          setProgress(0);
+          log("Retry", `${error.message}; retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt})`, "warning");
+        },
+      });
+
+      const finishedAt = performance.now();
+      log(
+        "Transcribe",
+        `${result.segments.length} segments${result.language ? `, language ${result.language}` : ""}`,
+        "success",
+        finishedAt - (uploadedAt ?? startedAt),
+      );
+      await addResult(result);
+    } catch (err) {
+      const error = err instanceof TranscriptionError ? err : new TranscriptionError("network", String(err));
+      if (error.code === "cancelled") {
+        log("Cancel", "Transcription cancelled", "warning");
+      } else {
+        log("Transcribe", error.message, "error");
+        toast.error(error.message);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setPhase("idle");
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    streamRef.current?.cancel();
+  };
+
+  const entries: TranscriptionEntry[] =
+    interim === null
+      ? transcriptions
+      : [
+          { id: "interim", timestamp: new Date(), userInput: interim || "Listening...", aiResponse: "", isInterim: true },
+          ...transcriptions,
+        ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="flex items-center justify-center space-x-2">
+              <AudioLines className="w-8 h-8 text-accent" />
+              <h1 className="text-3xl font-bold text-foreground">Transcribe</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Record a clip and send it to the transcription backend
+            </p>
+          </div>
+
+          <div className="flex items-center justify-center gap-3">
+            <Switch id="live-transcript" checked={liveMode} onCheckedChange={setLiveMode} disabled={interim !== null} />
+            <Label htmlFor="live-transcript">Live transcript while recording</Label>
+          </div>
+
+          <WaveformRecorder
+            onRecordingComplete={handleRecording}
+            onRecordingStart={startStream}
+            onPcmFrame={liveMode ? sendFrame : undefined}
+            pcmSampleRate={TRANSCRIPTION_STREAM_SAMPLE_RATE}
+            isProcessing={phase !== "idle"}
+          />
+
+          {phase !== "idle" && (
+            <Card className="bg-muted/30 border-border/50">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-foreground">
+                    {phase === "uploading" ? `Uploading... ${Math.round(progress * 100)}%` : "Transcribing..."}
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={cancel}>
+                    <X className="w-4 h-4 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+                <Progress
+                  value={phase === "uploading" ? progress * 100 : 100}
+                  className={cn(phase === "transcribing" && "animate-pulse")}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <TranscriptionDisplay transcriptions={entries} />
+
+          {segments.length > 0 && (
+            <Card className="bg-muted/30 border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ListOrdered className="w-5 h-5 text-accent" />
+                  <span>Segments</span>
+                </CardTitle>
+                <CardDescription>Timestamps for the latest transcription.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {segments.map((segment, index) => (
+                  <div key={index} className="flex items-start gap-3 text-sm">
+                    <Badge variant="outline" className="font-mono text-xs shrink-0">
+                      {formatTime(segment.start)}–{formatTime(segment.end)}
+                    </Badge>
+                    <span className="text-foreground">{segment.text}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <ConsoleLog logs={logs} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Transcribe;
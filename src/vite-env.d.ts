@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `mock` switches the AI overlay to the offline mock provider. */
+  readonly VITE_VOICE_PROVIDER?: string;
+  readonly VITE_MOCK_LIVE_URL?: string;
+  /** Base URL of the transcription backend; defaults to http://localhost:5000. */
+  readonly VITE_TRANSCRIBE_URL?: string;
+}